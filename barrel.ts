@@ -0,0 +1,100 @@
+/**
+ * Writes an index.ts that re-exports the types of the props files generated into the output directory
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import { Node, Project } from 'ts-morph';
+import Debug from 'debug';
+import * as R from 'ramda';
+
+const debug = Debug('shadcn:barrel');
+
+export const BARREL_FILE_NAME = 'index.ts';
+
+// Start of every barrel this tool writes; an index.ts without it belongs to the user
+const GENERATED_MARKER = '// Generated by shadcn-props';
+const BARREL_HEADER = `${GENERATED_MARKER}: re-exports the types of the props files generated into this directory`;
+
+export interface BarrelResult {
+  fileName: string;
+  // Props files the barrel re-exports from
+  files: string[];
+  // Names exported by more than one file; the first file in path order keeps them
+  duplicates: string[];
+}
+
+/**
+ * Module specifier of a props file as seen from the barrel
+ */
+function toSpecifier(file: string): string {
+  return `./${file.replace(/\.tsx?$/, '').split(path.sep).join('/')}`;
+}
+
+/**
+ * Props files an earlier barrel re-exports from that still exist, relative to outDir
+ * Throws when index.ts exists but was not written by this tool
+ */
+async function readBarrelFiles(fileName: string, outDir: string, project: Project): Promise<string[]> {
+  if (!existsSync(fileName)) return [];
+
+  const text = await fs.readFile(fileName, 'utf8');
+  if (!text.startsWith(GENERATED_MARKER)) {
+    throw new Error(`Refusing to overwrite ${fileName}: it was not generated by shadcn-props`);
+  }
+
+  const specifiers = project.createSourceFile(BARREL_FILE_NAME, text, { overwrite: true })
+    .getExportDeclarations()
+    .map(declaration => declaration.getModuleSpecifierValue())
+    .filter((specifier): specifier is string => !!specifier);
+
+  // Entries of props files that were deleted since are dropped
+  return R.uniq(specifiers)
+    .map(specifier => ['.ts', '.tsx'].map(extension => path.normalize(specifier + extension)).find(file => existsSync(path.join(outDir, file))))
+    .filter((file): file is string => !!file);
+}
+
+/**
+ * Re-export the types of the given props files and of those an earlier barrel in outDir lists
+ * Names are listed explicitly so types two files both declare do not make the barrel ambiguous
+ */
+export async function writeBarrel(outDir: string, propsFiles: string[]): Promise<BarrelResult> {
+  // Generated files are read on their own; nothing needs to resolve
+  const project = new Project({ useInMemoryFileSystem: true, skipAddingFilesFromTsConfig: true });
+  const fileName = path.join(outDir, BARREL_FILE_NAME);
+
+  const files = R.uniq([
+    ...await readBarrelFiles(fileName, outDir, project),
+    ...propsFiles.map(file => path.relative(outDir, file))
+  ]).sort();
+
+  const exported = new Set<string>();
+  const duplicates: string[] = [];
+  const statements: string[] = [];
+
+  for (const file of files) {
+    const sourceFile = project.createSourceFile(file, await fs.readFile(path.join(outDir, file), 'utf8'), { overwrite: true });
+    const declarations = [...sourceFile.getExportedDeclarations()].filter(([name]) => name !== 'default');
+
+    const unique = declarations.filter(([name]) => {
+      if (!exported.has(name)) return true;
+      duplicates.push(name);
+      return false;
+    });
+    unique.forEach(([name]) => exported.add(name));
+
+    // Metadata constants such as buttonVariantsMetadata are values, everything else is a type
+    const [values, types] = R.partition(([, nodes]) => nodes.some(node => Node.isVariableDeclaration(node) || Node.isFunctionDeclaration(node)), unique);
+    if (values.length > 0) {
+      statements.push(`export { ${values.map(([name]) => name).join(', ')} } from '${toSpecifier(file)}';`);
+    }
+    if (types.length > 0) {
+      statements.push(`export type { ${types.map(([name]) => name).join(', ')} } from '${toSpecifier(file)}';`);
+    }
+  }
+
+  await fs.writeFile(fileName, `${BARREL_HEADER}\n${statements.join('\n')}\n`, 'utf-8');
+
+  debug(`Wrote ${fileName} with ${files.length} files`);
+  return { fileName, files, duplicates };
+}
@@ -5,44 +5,272 @@
 
 import { program } from 'commander';
 import chalk from 'chalk';
-import { main } from './get-shadcn-props';
+import { 
+  main, 
+  runBatch, 
+  diffComponentProps, 
+  normalizeComponentName, 
+  OUTPUT_FORMATS, 
+  parseFormats, 
+  MainOptions, 
+  PropsDiffResult 
+} from './get-shadcn-props';
 import boxen from 'boxen';
 import ora from 'ora';
-import { ComponentDependencies, getComponentDependencies } from './component-registry';
+import { 
+  ComponentDependencies, 
+  getComponentDependencies, 
+  getRegisteredComponentNames, 
+  loadRegistry 
+} from './component-registry';
+import { PACKAGE_MANAGERS, PackageManager } from './package-manager';
+import { ComponentRevision, DEFAULT_DATABASE_PATH, getRevision, listRevisions, openComponentDatabase } from './database';
+import { diffLines, formatDiff } from './text-diff';
+import { ProjectConfig, isTypeName, loadProjectConfig } from './project-config';
 
 // Configure the CLI
 program
   .name('shadcn-props')
   .version('1.0.0')
   .description('Extract TypeScript prop types from shadcn components')
-  .argument('<component>', 'Component name or URL (e.g., "accordion" or a URL)')
-  .option('-d, --deps-only', 'Only detect dependencies, do not install')
+  .argument('[components...]', 'Component names or URLs (e.g., "accordion dialog tabs" or a URL)')
+  .option('-a, --all', 'Extract every component in the registry')
+  .option('--dry-run', 'Report the files, dependencies and types an extraction would produce without changing anything')
+  .option('-d, --deps-only', 'Alias for --dry-run')
   .option('-n, --no-cleanup', 'Do not clean up temporary files')
   .option('-v, --verbose', 'Show verbose output')
+  .option('--json', 'Print one JSON document with the extraction results instead of decorated output')
   .option('-r, --registry', 'Show component registry information')
+  .option('-p, --package-manager <name>', `Package manager to install with (${PACKAGE_MANAGERS.join(', ')}); detected from lockfiles by default`)
+  .option('--registry-source <path>', 'registry.json, registry item JSON or directory to load component definitions from')
+  .option('--offline <source>', 'Read component sources from a local shadcn registry checkout or registry JSON bundle instead of running the shadcn CLI')
+  .option('--isolated', 'Install and extract in a throwaway workspace so the project\'s package.json and components folder stay unchanged')
   .option('-c, --component-id <id>', 'Component ID to update in the database')
-  .action(async (componentNameOrUrl: string, options) => {
+  .option('--database <path>', 'SQLite database to save components to (created and migrated as needed)')
+  .option('-e, --expanded', 'Resolve every prop member through the type checker instead of emitting aliases')
+  .option('-f, --format <formats>', `Additional output formats, comma-separated (${OUTPUT_FORMATS.join(', ')})`)
+  .option('--zod-functions <mode>', 'How the zod format handles function props: include or exclude', 'exclude')
+  .option('--zod-react-node <expression>', 'Zod expression used for ReactNode props', 'z.any()')
+  .option('--no-validate', 'Skip type-checking the generated props file before saving it')
+  .option('--fix-imports', 'Add imports for names the generated props file uses without importing them')
+  .option('--strict', 'Refuse to write a props file that does not compile')
+  .option('-o, --out-dir <path>', 'Directory generated files are written to (default: the current directory)')
+  .option('--file-name <template>', 'File name template of the props file, using {Pascal} or {kebab} (default: {Pascal}Props.ts)')
+  .option('--barrel', 'Write an index.ts to the output directory that re-exports every generated props file')
+  .option('--config <path>', 'shadcn-props config file to use instead of searching for one')
+  .option('--timeout <ms>', 'Time limit for extracting one component in milliseconds (default: 90000)')
+  .option('--install-timeout <ms>', 'Time limit for each install command of one component (shadcn CLI, dependencies) in milliseconds (default: 90000)')
+  .option('--type-name <from=to>', 'Replace an emitted type name (repeatable)', collect)
+  .action(async (components: string[], options) => {
     if (options.verbose) {
       process.env.DEBUG = 'shadcn:*';
     }
     
+    let config: ProjectConfig;
+    try {
+      // Flags take precedence over the project configuration
+      config = mergeConfig({
+        outDir: options.outDir,
+        fileName: options.fileName,
+        barrel: options.barrel,
+        formats: options.format === undefined ? undefined : [options.format],
+        packageManager: options.packageManager,
+        database: options.database,
+        timeouts: {
+          operation: parseTimeout('--timeout', options.timeout),
+          install: parseTimeout('--install-timeout', options.installTimeout)
+        },
+        // An offline bundle doubles as the registry unless one is given
+        registrySource: options.registrySource ?? options.offline,
+        typeNames: parseTypeNames(options.typeName)
+      }, await readConfig(options.config, options.json));
+      
+      // Checked before extracting so a run never ends with the props written but no barrel
+      if (config.barrel && !config.outDir) {
+        throw new Error('--barrel needs an output directory: pass --out-dir or set outDir in the configuration');
+      }
+    } catch (error) {
+      reportError(error, options.json);
+    }
+    const { registrySource } = config;
+    
+    try {
+      const loaded = await loadRegistry(registrySource);
+      if (loaded > 0 && options.verbose && !options.json) {
+        console.log(chalk.gray(`Loaded ${loaded} components from registry JSON`));
+      }
+    } catch (error) {
+      reportError(error, options.json);
+    }
+    
+    const targets = options.all ? getRegisteredComponentNames() : components;
+    if (targets.length === 0) {
+      reportError(new Error('Provide at least one component name or use --all'), options.json);
+    }
+    
     if (options.registry) {
-      showComponentInfo(componentNameOrUrl);
+      targets.forEach(showComponentInfo);
       return;
     }
     
     try {
-      await main(componentNameOrUrl, {
-        depsOnly: options.depsOnly,
+      const mainOptions: MainOptions = {
+        dryRun: options.dryRun || options.depsOnly,
         cleanup: options.cleanup !== false,
-        componentId: options.componentId
-      });
+        componentId: options.componentId,
+        database: config.database,
+        registrySource,
+        offline: options.offline,
+        isolated: options.isolated,
+        json: options.json,
+        packageManager: parsePackageManager(config.packageManager),
+        expanded: options.expanded,
+        formats: parseFormats(config.formats?.join(',')),
+        outDir: config.outDir,
+        fileName: parseFileName(config.fileName),
+        barrel: config.barrel,
+        typeNames: config.typeNames,
+        timeout: config.timeouts?.operation,
+        installTimeout: config.timeouts?.install,
+        validate: options.validate !== false,
+        fixImports: options.fixImports,
+        strict: options.strict,
+        zod: {
+          functions: options.zodFunctions === 'include' ? 'include' : 'exclude',
+          reactNodePlaceholder: options.zodReactNode
+        }
+      };
+      
+      if (targets.length === 1) {
+        await main(targets[0], mainOptions);
+        return;
+      }
+      
+      // Batch runs report failures in the summary and only set the exit code
+      const results = await runBatch(targets, mainOptions);
+      if (results.some(result => !result.success)) {
+        process.exitCode = 1;
+      }
     } catch (error) {
-      console.error(chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : String(error)}`));
-      process.exit(1);
+      reportError(error, options.json);
     }
   });
 
+/**
+ * Print a fatal error (as JSON in --json mode) and exit
+ */
+function reportError(error: unknown, json?: boolean): never {
+  const message = error instanceof Error ? error.message : String(error);
+  
+  if (json) {
+    console.log(JSON.stringify({ success: false, error: message }, null, 2));
+  } else {
+    console.error(chalk.red(`\n❌ Error: ${message}`));
+  }
+  process.exit(1);
+}
+
+/**
+ * Load the project configuration; an unreadable or invalid file is a fatal error
+ */
+async function readConfig(configPath?: string, json?: boolean): Promise<ProjectConfig> {
+  try {
+    const loaded = await loadProjectConfig(configPath);
+    return loaded ? loaded.config : {};
+  } catch (error) {
+    reportError(error, json);
+  }
+}
+
+/**
+ * Overlay the options given as flags on the project configuration; a given flag wins even when empty
+ */
+function mergeConfig(flags: ProjectConfig, config: ProjectConfig): ProjectConfig {
+  return {
+    outDir: flags.outDir ?? config.outDir,
+    fileName: flags.fileName ?? config.fileName,
+    barrel: flags.barrel ?? config.barrel,
+    formats: flags.formats ?? config.formats,
+    packageManager: flags.packageManager ?? config.packageManager,
+    database: flags.database ?? config.database,
+    timeouts: {
+      operation: flags.timeouts?.operation ?? config.timeouts?.operation,
+      install: flags.timeouts?.install ?? config.timeouts?.install
+    },
+    registrySource: flags.registrySource ?? config.registrySource,
+    typeNames: flags.typeNames ?? config.typeNames
+  };
+}
+
+/**
+ * Collect the values of a repeatable option
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Validate a --timeout or --install-timeout value
+ */
+function parseTimeout(flag: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`${flag} must be a positive number of milliseconds, got "${value}"`);
+  }
+  
+  return timeout;
+}
+
+/**
+ * Validate the --type-name replacements
+ */
+function parseTypeNames(values?: string[]): Record<string, string> | undefined {
+  if (!values) return undefined;
+  
+  const typeNames: Record<string, string> = {};
+  values.forEach(value => {
+    const [from, to] = value.split('=').map(name => name.trim());
+    if (!from || !to || !isTypeName(to)) {
+      throw new Error(`--type-name "${value}" must have the form From=To with a valid identifier as the new name`);
+    }
+    typeNames[from] = to;
+  });
+  
+  return typeNames;
+}
+
+/**
+ * Validate the --file-name template
+ */
+function parseFileName(value?: string): string | undefined {
+  if (!value) return undefined;
+  
+  // Without a placeholder every component would overwrite the same file
+  if (!/\{(Pascal|kebab)\}/.test(value)) {
+    throw new Error(`File name template "${value}" must contain {Pascal} or {kebab}`);
+  }
+  if (!/\.tsx?$/.test(value)) {
+    throw new Error(`File name template "${value}" must end with .ts`);
+  }
+  
+  return value;
+}
+
+/**
+ * Validate the --package-manager option
+ */
+function parsePackageManager(value?: string): PackageManager | undefined {
+  if (!value) return undefined;
+  
+  if (!(PACKAGE_MANAGERS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown package manager: ${value}. Supported: ${PACKAGE_MANAGERS.join(', ')}`);
+  }
+  
+  return value as PackageManager;
+}
+
 /**
  * Display detailed component information from registry
  */
@@ -85,6 +313,179 @@ function showComponentInfo(componentName: string): void {
       console.log(`- ${sub}`);
     });
   }
+  
+  if (info.registryDependencies && info.registryDependencies.length) {
+    console.log(`\n${chalk.cyan('Registry dependencies:')} ${info.registryDependencies.join(', ')}`);
+  }
+  
+  if (info.files && info.files.length) {
+    console.log(`\n${chalk.cyan('Files:')}`);
+    info.files.forEach(file => {
+      console.log(`- ${file}`);
+    });
+  }
+}
+
+// Inspect the revision history stored by --database
+const revisionsCommand = program
+  .command('revisions')
+  .description('Inspect stored revisions of extracted props');
+
+revisionsCommand
+  .command('list <component>')
+  .description('List the stored revisions of a component')
+  .option('--database <path>', `SQLite database to read (defaults to the configured database or ${DEFAULT_DATABASE_PATH})`)
+  .option('--config <path>', 'shadcn-props config file to use instead of searching for one')
+  .action(async (component: string, options: { database?: string; config?: string }) => {
+    const { normalizedName } = normalizeComponentName(component);
+    const config = mergeConfig({ database: options.database }, await readConfig(options.config));
+    
+    try {
+      const db = await openComponentDatabase(config.database ?? DEFAULT_DATABASE_PATH);
+      let revisions: ComponentRevision[];
+      try {
+        revisions = await listRevisions(db, normalizedName);
+      } finally {
+        await db.close();
+      }
+      
+      if (revisions.length === 0) {
+        console.log(chalk.yellow(`No revisions stored for ${normalizedName}`));
+        return;
+      }
+      
+      console.log(chalk.blue.bold(`Revisions of ${normalizedName}`));
+      revisions.forEach((revision, index) => {
+        const unchanged = index > 0 && revisions[index - 1].contentHash === revision.contentHash;
+        const radix = Object.entries(revision.packageVersions)
+          .map(([name, version]) => `${name}@${version}`)
+          .join(', ');
+        
+        console.log(`${chalk.bold(`#${revision.revision}`)}  ${revision.createdAt}  ${revision.contentHash.slice(0, 12)}  shadcn ${revision.shadcnVersion || 'unknown'}${unchanged ? chalk.gray('  (unchanged)') : ''}`);
+        if (radix) {
+          console.log(chalk.gray(`    ${radix}`));
+        }
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+revisionsCommand
+  .command('diff <component> <from> [to]')
+  .description('Show the changes between two revisions of a component (to defaults to the latest)')
+  .option('--database <path>', `SQLite database to read (defaults to the configured database or ${DEFAULT_DATABASE_PATH})`)
+  .option('--config <path>', 'shadcn-props config file to use instead of searching for one')
+  .action(async (component: string, from: string, to: string | undefined, options: { database?: string; config?: string }) => {
+    const { normalizedName } = normalizeComponentName(component);
+    const config = mergeConfig({ database: options.database }, await readConfig(options.config));
+    
+    try {
+      const db = await openComponentDatabase(config.database ?? DEFAULT_DATABASE_PATH);
+      let before: ComponentRevision | null;
+      let after: ComponentRevision | null;
+      try {
+        before = await getRevision(db, normalizedName, parseRevision(from));
+        after = await getRevision(db, normalizedName, to === undefined ? undefined : parseRevision(to));
+      } finally {
+        await db.close();
+      }
+      
+      if (!before || !after) {
+        throw new Error(`Revision ${!before ? from : to} of ${normalizedName} not found`);
+      }
+      
+      console.log(chalk.blue.bold(`${normalizedName}: revision #${before.revision} → #${after.revision}`));
+      if (before.contentHash === after.contentHash) {
+        console.log(chalk.gray('No changes'));
+        return;
+      }
+      console.log(formatDiff(diffLines(before.typescript, after.typescript)));
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// Compare the installed component's props with a previous extraction
+program
+  .command('diff <component>')
+  .description('Classify prop changes between the installed component and a previous extraction; exits 1 on breaking changes')
+  .option('--against <file>', 'Previously generated props file (defaults to the configured props file, <Component>Props.ts)')
+  .option('--revision <n>', 'Compare against a stored revision number or "latest" instead of a file')
+  .option('--database <path>', `SQLite database to read revisions from (defaults to the configured database or ${DEFAULT_DATABASE_PATH})`)
+  .option('--registry-source <path>', 'registry.json, registry item JSON or directory to load component definitions from')
+  .option('--config <path>', 'shadcn-props config file to use instead of searching for one')
+  .option('--json', 'Print the changes as JSON')
+  .action(async (component: string, options: { against?: string; revision?: string; database?: string; registrySource?: string; config?: string; json?: boolean }) => {
+    const config = mergeConfig({
+      database: options.database,
+      registrySource: options.registrySource
+    }, await readConfig(options.config, options.json));
+    
+    try {
+      const result = await diffComponentProps(component, {
+        against: options.against,
+        revision: options.revision === undefined ? undefined 
+          : options.revision === 'latest' ? 'latest' : parseRevision(options.revision),
+        database: config.database ?? DEFAULT_DATABASE_PATH,
+        registrySource: config.registrySource,
+        outDir: config.outDir,
+        fileName: parseFileName(config.fileName),
+        typeNames: config.typeNames,
+        json: options.json
+      });
+      
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printPropsDiff(result);
+      }
+      
+      // Breaking changes fail the command so upgrades can be gated in CI
+      if (result.breaking) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      reportError(error, options.json);
+    }
+  });
+
+/**
+ * Print classified prop changes
+ */
+function printPropsDiff(result: PropsDiffResult): void {
+  console.log(chalk.blue.bold(`\n${result.component}: changes since ${result.baseline}`));
+  result.warnings.forEach(warning => console.log(chalk.yellow(`⚠ ${warning}`)));
+  
+  if (result.changes.length === 0) {
+    console.log(chalk.green('No prop changes'));
+    return;
+  }
+  
+  result.changes.forEach(change => {
+    const target = change.prop ? `${change.typeName}.${change.prop}` : change.typeName;
+    const types = change.before !== undefined || change.after !== undefined
+      ? chalk.gray(` (${change.before ?? '∅'} → ${change.after ?? '∅'})`)
+      : '';
+    const label = change.breaking ? chalk.red(`✖ ${change.kind}`) : chalk.green(`✔ ${change.kind}`);
+    console.log(`${label}  ${target}${types}`);
+  });
+  
+  const breakingCount = result.changes.filter(change => change.breaking).length;
+  console.log(breakingCount > 0 
+    ? chalk.red(`\n${breakingCount} breaking of ${result.changes.length} changes`)
+    : chalk.green(`\n${result.changes.length} non-breaking changes`));
+}
+
+/**
+ * Parse a revision number argument
+ */
+function parseRevision(value: string): number {
+  const revision = Number(value.replace(/^#/, ''));
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new Error(`Invalid revision: ${value}`);
+  }
+  return revision;
 }
 
 // Parse command line arguments
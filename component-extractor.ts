@@ -0,0 +1,221 @@
+/**
+ * Finds the components a file exports and the props type each one accepts
+ * Covers React 19 style functions as well as forwardRef and memo wrappers
+ */
+
+import { CallExpression, Node, SourceFile, ts, TypeNode } from 'ts-morph';
+import Debug from 'debug';
+import { PropDefaults, getParameterDefaults } from './default-extractor';
+
+const debug = Debug('shadcn:components');
+
+/**
+ * How an exported component is declared
+ */
+export type ComponentKind = 'function' | 'arrow' | 'forwardRef' | 'memo';
+
+export interface ExportedComponent {
+  /**
+   * Exported name of the component (e.g., AccordionItem)
+   */
+  name: string;
+
+  /**
+   * Declaration form
+   */
+  kind: ComponentKind;
+
+  /**
+   * Props type as written (e.g., React.ComponentProps<typeof AccordionPrimitive.Item>)
+   */
+  propsType: string | null;
+
+  /**
+   * Props type the component maps to: the declared type it uses (e.g., ButtonProps) or its name plus Props
+   */
+  typeName: string | null;
+
+  /**
+   * Element type the ref points at (e.g., HTMLButtonElement), if known
+   */
+  refType: string | null;
+
+  /**
+   * Whether the ref is passed separately from the props (forwardRef) instead of as a prop
+   */
+  separateRef: boolean;
+
+  /**
+   * Destructuring defaults of the props parameter
+   */
+  defaults: PropDefaults;
+
+  /**
+   * Type node of the props, used to resolve members through the type checker
+   */
+  propsNode?: TypeNode;
+}
+
+interface ComponentSignature {
+  propsNode?: TypeNode;
+  refType: string | null;
+  separateRef: boolean;
+  defaults: PropDefaults;
+}
+
+/**
+ * Whether a call is name(...) or React.name(...), e.g. forwardRef or memo
+ */
+function isCallTo(call: CallExpression, name: string): boolean {
+  return new RegExp(`(^|\\.)${name}$`).test(call.getExpression().getText());
+}
+
+/**
+ * Read the props of a function component from its first parameter
+ */
+function getFunctionSignature(fn: Node): ComponentSignature | null {
+  if (!Node.isFunctionDeclaration(fn) && !Node.isFunctionExpression(fn) && !Node.isArrowFunction(fn)) {
+    return null;
+  }
+
+  const parameter = fn.getParameters()[0];
+  const propsNode = parameter?.getTypeNode();
+  return {
+    propsNode,
+    refType: propsNode ? getRefPropType(propsNode) : null,
+    separateRef: false,
+    defaults: parameter ? getParameterDefaults(parameter) : {}
+  };
+}
+
+/**
+ * Read the props and ref of forwardRef<Element, Props>((props, ref) => ...)
+ */
+function getForwardRefSignature(call: CallExpression): ComponentSignature {
+  const [refTypeNode, propsTypeNode] = call.getTypeArguments();
+  const render = call.getArguments()[0];
+  const parameters = render && (Node.isArrowFunction(render) || Node.isFunctionExpression(render))
+    ? render.getParameters()
+    : [];
+
+  // Without type arguments the render function parameters carry the types
+  const refParameterType = parameters[1]?.getTypeNode()?.getText();
+  const refFromParameter = refParameterType?.match(/Ref<(.+)>$/);
+
+  return {
+    propsNode: propsTypeNode || parameters[0]?.getTypeNode(),
+    refType: refTypeNode?.getText() || (refFromParameter ? refFromParameter[1] : null),
+    separateRef: true,
+    defaults: parameters[0] ? getParameterDefaults(parameters[0]) : {}
+  };
+}
+
+/**
+ * Find the element type of the ref prop React 19 components receive with their props
+ */
+function getRefPropType(propsNode: TypeNode): string | null {
+  try {
+    const refProperty = propsNode.getType().getProperty('ref');
+    if (!refProperty) return null;
+
+    const refType = refProperty.getTypeAtLocation(propsNode).getNonNullableType();
+    const parts = refType.isUnion() ? refType.getUnionTypes() : [refType];
+
+    // Ref<T> and LegacyRef<T> both include RefObject<T>
+    for (const part of parts) {
+      if (part.getSymbol()?.getName() === 'RefObject') {
+        const element = part.getTypeArguments()[0];
+        if (element) {
+          return element.getText(propsNode, ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope);
+        }
+      }
+    }
+  } catch (error) {
+    debug('Could not resolve ref type:', error);
+  }
+  return null;
+}
+
+/**
+ * Name of the props type a component maps to
+ */
+function getPropsTypeName(name: string, propsNode: TypeNode | undefined, sourceFile: SourceFile): string | null {
+  if (!propsNode) return null;
+
+  // A bare reference to a props type declared in the same file, e.g. ({ ... }: ButtonProps)
+  if (Node.isTypeReference(propsNode) && propsNode.getTypeArguments().length === 0) {
+    const referenced = propsNode.getTypeName().getText();
+    if (sourceFile.getInterface(referenced) || sourceFile.getTypeAlias(referenced)) {
+      return referenced;
+    }
+  }
+
+  return `${name}Props`;
+}
+
+/**
+ * Work out the kind and signature of a component initializer or declaration
+ */
+function describeComponent(node: Node): { kind: ComponentKind; signature: ComponentSignature } | null {
+  if (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node)) {
+    const signature = getFunctionSignature(node);
+    return signature ? { kind: 'function', signature } : null;
+  }
+
+  if (Node.isArrowFunction(node)) {
+    const signature = getFunctionSignature(node);
+    return signature ? { kind: 'arrow', signature } : null;
+  }
+
+  if (Node.isCallExpression(node)) {
+    if (isCallTo(node, 'forwardRef')) {
+      return { kind: 'forwardRef', signature: getForwardRefSignature(node) };
+    }
+
+    // memo(Component) keeps the props of the wrapped component
+    const wrapped = node.getArguments()[0];
+    if (isCallTo(node, 'memo') && wrapped) {
+      const inner = describeComponent(wrapped);
+      return inner ? { kind: 'memo', signature: inner.signature } : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find every component a file exports, in export order
+ */
+export function findExportedComponents(sourceFile: SourceFile): ExportedComponent[] {
+  const components: ExportedComponent[] = [];
+
+  sourceFile.getExportedDeclarations().forEach((declarations, exportName) => {
+    declarations.forEach(declaration => {
+      const name = exportName === 'default' && (Node.isFunctionDeclaration(declaration) || Node.isVariableDeclaration(declaration))
+        ? declaration.getName() || exportName
+        : exportName;
+
+      // Components are PascalCase; hooks and cva variants are not
+      if (!/^[A-Z]/.test(name) || declaration.getSourceFile() !== sourceFile) return;
+
+      const target = Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : declaration;
+      const described = target ? describeComponent(target) : null;
+      if (!described) return;
+
+      const { propsNode, refType, separateRef, defaults } = described.signature;
+      components.push({
+        name,
+        kind: described.kind,
+        propsType: propsNode ? propsNode.getText() : null,
+        typeName: getPropsTypeName(name, propsNode, sourceFile),
+        refType,
+        separateRef,
+        defaults,
+        ...(propsNode ? { propsNode } : {})
+      });
+    });
+  });
+
+  debug(`Exported components in ${sourceFile.getBaseName()}: ${components.map(component => component.name).join(', ')}`);
+  return components;
+}
@@ -3,6 +3,14 @@
  * This helps the script identify required packages for each component
  */
 
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import findUp from 'find-up';
+import globPromise from 'glob-promise';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:registry');
+
 export interface ComponentDependencies {
   // Base NPM package name (e.g., @radix-ui/react-accordion)
   package: string;
@@ -12,6 +20,47 @@ export interface ComponentDependencies {
   subComponents: string[];
   // Any additional dependencies this component might need
   additionalDeps?: string[];
+  // Other registry items this component depends on (e.g., button for pagination)
+  registryDependencies?: string[];
+  // Source files listed by the registry item
+  files?: string[];
+}
+
+/**
+ * A file entry in a shadcn registry item (older registries use plain path strings)
+ */
+export interface RegistryItemFile {
+  path: string;
+  type?: string;
+  target?: string;
+  content?: string;
+}
+
+/**
+ * A shadcn registry item as found in registry.json or registry/*.json
+ */
+export interface RegistryItem {
+  name: string;
+  type?: string;
+  dependencies?: string[];
+  devDependencies?: string[];
+  registryDependencies?: string[];
+  files?: Array<string | RegistryItemFile>;
+}
+
+/**
+ * Source of a component file read from a registry checkout or bundle
+ */
+export interface ComponentSourceFile {
+  // Path inside the ui directory (e.g., accordion.tsx or sidebar/index.tsx)
+  path: string;
+  content: string;
+}
+
+export interface ComponentSources {
+  files: ComponentSourceFile[];
+  // Other registry items the component imports (e.g., button for pagination)
+  registryDependencies: string[];
 }
 
 export const componentRegistry: Record<string, ComponentDependencies> = {
@@ -45,6 +94,12 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: [],
     additionalDeps: ['class-variance-authority']
   },
+  breadcrumb: {
+    package: '@radix-ui/react-slot',
+    primitive: 'Slot',
+    subComponents: ['List', 'Item', 'Link', 'Page', 'Separator', 'Ellipsis'],
+    additionalDeps: ['lucide-react']
+  },
   button: {
     package: '@radix-ui/react-slot',
     primitive: 'Slot',
@@ -63,6 +118,19 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: ['Header', 'Title', 'Description', 'Content', 'Footer'],
     additionalDeps: []
   },
+  carousel: {
+    package: 'embla-carousel-react',
+    primitive: 'useEmblaCarousel',
+    subComponents: ['Content', 'Item', 'Previous', 'Next'],
+    additionalDeps: ['lucide-react'],
+    registryDependencies: ['button']
+  },
+  chart: {
+    package: 'recharts',
+    primitive: 'RechartsPrimitive',
+    subComponents: ['Container', 'Tooltip', 'TooltipContent', 'Legend', 'LegendContent'],
+    additionalDeps: []
+  },
   checkbox: {
     package: '@radix-ui/react-checkbox',
     primitive: 'CheckboxPrimitive',
@@ -129,6 +197,12 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: [],
     additionalDeps: []
   },
+  'input-otp': {
+    package: 'input-otp',
+    primitive: 'OTPInput',
+    subComponents: ['Group', 'Slot', 'Separator'],
+    additionalDeps: ['lucide-react']
+  },
   label: {
     package: '@radix-ui/react-label',
     primitive: 'LabelPrimitive',
@@ -153,6 +227,13 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: [],
     additionalDeps: ['lucide-react']
   },
+  pagination: {
+    package: '',
+    primitive: '',
+    subComponents: ['Content', 'Item', 'Link', 'Previous', 'Next', 'Ellipsis'],
+    additionalDeps: ['lucide-react'],
+    registryDependencies: ['button']
+  },
   popover: {
     package: '@radix-ui/react-popover',
     primitive: 'PopoverPrimitive',
@@ -171,6 +252,12 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: ['Root', 'Item', 'Indicator'],
     additionalDeps: []
   },
+  resizable: {
+    package: 'react-resizable-panels',
+    primitive: 'ResizablePrimitive',
+    subComponents: ['PanelGroup', 'Panel', 'PanelResizeHandle'],
+    additionalDeps: ['lucide-react']
+  },
   'scroll-area': {
     package: '@radix-ui/react-scroll-area',
     primitive: 'ScrollAreaPrimitive',
@@ -195,6 +282,13 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: ['Root', 'Trigger', 'Portal', 'Close', 'Content', 'Header', 'Footer', 'Title', 'Description'],
     additionalDeps: []
   },
+  sidebar: {
+    package: '@radix-ui/react-slot',
+    primitive: 'Slot',
+    subComponents: ['Provider', 'Trigger', 'Rail', 'Inset', 'Header', 'Footer', 'Content', 'Group', 'Menu', 'MenuItem', 'MenuButton'],
+    additionalDeps: ['class-variance-authority', 'lucide-react'],
+    registryDependencies: ['button', 'separator', 'sheet', 'tooltip', 'input', 'skeleton']
+  },
   skeleton: {
     package: '',
     primitive: '',
@@ -207,12 +301,24 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
     subComponents: ['Root', 'Track', 'Range', 'Thumb'],
     additionalDeps: []
   },
+  sonner: {
+    package: 'sonner',
+    primitive: 'Toaster',
+    subComponents: [],
+    additionalDeps: ['next-themes']
+  },
   switch: {
     package: '@radix-ui/react-switch',
     primitive: 'SwitchPrimitive',
     subComponents: ['Root', 'Thumb'],
     additionalDeps: []
   },
+  table: {
+    package: '',
+    primitive: '',
+    subComponents: ['Header', 'Body', 'Footer', 'Row', 'Head', 'Cell', 'Caption'],
+    additionalDeps: []
+  },
   tabs: {
     package: '@radix-ui/react-tabs',
     primitive: 'TabsPrimitive', 
@@ -251,6 +357,283 @@ export const componentRegistry: Record<string, ComponentDependencies> = {
   }
 };
 
+// Packages whose exports are wrapped by shadcn components
+const PRIMITIVE_PACKAGES = [
+  'cmdk',
+  'vaul',
+  'react-day-picker',
+  'input-otp',
+  'embla-carousel-react',
+  'react-resizable-panels',
+  'sonner',
+  'recharts'
+];
+
+// Items loaded from registry JSON files, keyed by component name
+let loadedRegistry: Record<string, ComponentDependencies> = {};
+let loadedSource: string | null = null;
+
+/**
+ * Strip a version range from a registry dependency (e.g., react-day-picker@8.10.1)
+ */
+function stripVersion(dependency: string): string {
+  return dependency.replace(/(?!^)@.*$/, '');
+}
+
+/**
+ * Whether a package provides primitives that shadcn components wrap
+ */
+function isPrimitivePackage(packageName: string): boolean {
+  return packageName.startsWith('@radix-ui/react-') || PRIMITIVE_PACKAGES.includes(packageName);
+}
+
+/**
+ * Derive the conventional primitive import name from a Radix package name
+ */
+function derivePrimitiveName(packageName: string): string {
+  const match = packageName.match(/^@radix-ui\/react-([a-z-]+)$/);
+  if (!match) return '';
+  
+  return match[1]
+    .split('-')
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('') + 'Primitive';
+}
+
+/**
+ * Find the namespace primitive import and its used members in inline file content
+ */
+function findPrimitiveInContent(content: string): { primitive: string; package: string; subComponents: string[] } | null {
+  const importRegex = /import\s+\*\s+as\s+([A-Za-z0-9_]+)\s+from\s+["']([^"']+)["']/g;
+  let match;
+  
+  while ((match = importRegex.exec(content)) !== null) {
+    const [, primitive, packageName] = match;
+    if (!isPrimitivePackage(packageName)) continue;
+    
+    const subComponents = new Set<string>();
+    const usageRegex = new RegExp(`\\b${primitive}\\.([A-Za-z0-9_]+)`, 'g');
+    let usage;
+    while ((usage = usageRegex.exec(content)) !== null) {
+      if (!['displayName', 'propTypes', 'defaultProps'].includes(usage[1])) {
+        subComponents.add(usage[1]);
+      }
+    }
+    
+    return { primitive, package: packageName, subComponents: Array.from(subComponents) };
+  }
+  
+  return null;
+}
+
+/**
+ * Convert a shadcn registry item into the dependency shape used by the extractor
+ * Built-in entries fill in primitive details the registry item does not carry
+ */
+export function registryItemToDependencies(item: RegistryItem): ComponentDependencies {
+  const builtin = componentRegistry[item.name];
+  const dependencies = (item.dependencies || []).map(stripVersion);
+  const files = (item.files || []).map(file => typeof file === 'string' ? { path: file } : file);
+  
+  const content = files.map(file => file.content || '').join('\n');
+  const fromContent = content.trim() ? findPrimitiveInContent(content) : null;
+  
+  const primaryPackage = fromContent?.package ||
+    dependencies.find(isPrimitivePackage) ||
+    (builtin && dependencies.includes(builtin.package) ? builtin.package : '');
+  
+  let primitive = fromContent?.primitive || '';
+  let subComponents = fromContent?.subComponents || [];
+  if (!fromContent && builtin && builtin.package === primaryPackage) {
+    primitive = builtin.primitive;
+    subComponents = builtin.subComponents;
+  } else if (!primitive) {
+    primitive = derivePrimitiveName(primaryPackage);
+  }
+  
+  return {
+    package: primaryPackage,
+    primitive,
+    subComponents,
+    additionalDeps: dependencies.filter(dep => dep !== primaryPackage),
+    registryDependencies: item.registryDependencies || [],
+    files: files.map(file => file.path)
+  };
+}
+
+// JSON files of a checkout that are never registry items
+const NON_REGISTRY_FILES = ['package.json', 'tsconfig*.json', 'jsconfig*.json', 'components.json'];
+
+/**
+ * Whether parsed JSON is a registry item; package.json also has a name and dependencies
+ */
+function isRegistryItem(json: { name?: unknown; type?: unknown; $schema?: unknown }): boolean {
+  if (typeof json.name !== 'string') return false;
+  
+  const hasRegistryType = typeof json.type === 'string' && /^(registry|components):/.test(json.type);
+  const hasRegistrySchema = typeof json.$schema === 'string' && json.$schema.includes('registry-item');
+  return hasRegistryType || hasRegistrySchema;
+}
+
+/**
+ * Read registry items from a registry.json index, a single item file or a directory of item files
+ */
+async function readRegistryItems(source: string): Promise<RegistryItem[]> {
+  const stat = await fs.stat(source);
+  const jsonFiles = stat.isDirectory()
+    ? await globPromise('{registry.json,*.json,registry/**/*.json}', { 
+        cwd: source, 
+        absolute: true, 
+        ignore: NON_REGISTRY_FILES.map(pattern => `**/${pattern}`) 
+      })
+    : [source];
+  
+  const items: RegistryItem[] = [];
+  
+  for (const file of jsonFiles) {
+    try {
+      const json = JSON.parse(await fs.readFile(file, 'utf8'));
+      
+      if (Array.isArray(json.items)) {
+        // registry.json index with an items array
+        items.push(...json.items);
+      } else if (isRegistryItem(json)) {
+        // Single registry item
+        items.push(json);
+      }
+    } catch (error) {
+      debug(`Skipping unreadable registry file ${file}:`, error);
+    }
+  }
+  
+  return items;
+}
+
+/**
+ * Load component definitions from shadcn registry JSON on disk
+ * Without an explicit source, looks for registry.json or registry/ next to the project's package.json
+ */
+export async function loadRegistry(source?: string): Promise<number> {
+  let resolvedSource = source ? path.resolve(source) : null;
+  
+  if (!resolvedSource) {
+    const packageJsonPath = await findUp('package.json');
+    const projectRoot = packageJsonPath ? path.dirname(packageJsonPath) : process.cwd();
+    resolvedSource = [
+      path.join(projectRoot, 'registry.json'),
+      path.join(projectRoot, 'registry')
+    ].find(candidate => existsSync(candidate)) || null;
+    
+    if (!resolvedSource) {
+      debug('No registry JSON found, using built-in registry');
+      return 0;
+    }
+  } else if (!existsSync(resolvedSource)) {
+    throw new Error(`Registry source not found: ${resolvedSource}`);
+  }
+  
+  if (resolvedSource === loadedSource) {
+    return Object.keys(loadedRegistry).length;
+  }
+  
+  const items = await readRegistryItems(resolvedSource);
+  loadedRegistry = {};
+  
+  items
+    // Only component items carry dependencies worth extracting
+    .filter(item => !item.type || item.type === 'registry:ui' || item.type === 'components:ui')
+    .forEach(item => {
+      loadedRegistry[item.name] = registryItemToDependencies(item);
+    });
+  
+  loadedSource = resolvedSource;
+  debug(`Loaded ${Object.keys(loadedRegistry).length} registry items from ${resolvedSource}`);
+  return Object.keys(loadedRegistry).length;
+}
+
+/**
+ * Path of a registry file inside the ui directory
+ * e.g. registry/new-york-v4/ui/accordion.tsx -> accordion.tsx
+ */
+function toUiPath(filePath: string): string {
+  const normalized = filePath.split(path.sep).join('/');
+  const match = normalized.match(/(?:^|\/)ui\/(.+)$/);
+  return match ? match[1] : path.basename(normalized);
+}
+
+/**
+ * Find the files of a component in a checkout that has no registry item for it
+ * Only the first style directory with a match is used (e.g., new-york-v4 before default)
+ */
+async function findSourceFiles(directory: string, componentName: string): Promise<string[]> {
+  const matches = await globPromise(`**/ui/{${componentName}.{tsx,ts,jsx},${componentName}/**/*.{tsx,ts,jsx}}`, {
+    cwd: directory,
+    absolute: true,
+    ignore: '**/node_modules/**'
+  });
+  if (matches.length === 0) return [];
+  
+  const sorted = [...matches].sort();
+  const uiRoot = sorted[0].slice(0, sorted[0].lastIndexOf('/ui/') + 4);
+  return sorted.filter(match => match.startsWith(uiRoot) && !match.slice(uiRoot.length).includes('/ui/'));
+}
+
+/**
+ * Read the source of a component from a local shadcn registry checkout or registry JSON bundle
+ * Inline files[].content is used when present, otherwise files are read relative to the source
+ */
+export async function readComponentSources(source: string, componentName: string): Promise<ComponentSources> {
+  const resolvedSource = path.resolve(source);
+  if (!existsSync(resolvedSource)) {
+    throw new Error(`Registry source not found: ${resolvedSource}`);
+  }
+  
+  const isDirectory = (await fs.stat(resolvedSource)).isDirectory();
+  const baseDir = isDirectory ? resolvedSource : path.dirname(resolvedSource);
+  const item = (await readRegistryItems(resolvedSource)).find(candidate => candidate.name === componentName);
+  const files: ComponentSourceFile[] = [];
+  
+  for (const file of item?.files || []) {
+    const entry = typeof file === 'string' ? { path: file } as RegistryItemFile : file;
+    if (typeof entry.content === 'string') {
+      files.push({ path: toUiPath(entry.target || entry.path), content: entry.content });
+      continue;
+    }
+    
+    const filePath = path.resolve(baseDir, entry.path);
+    if (existsSync(filePath)) {
+      files.push({ path: toUiPath(entry.path), content: await fs.readFile(filePath, 'utf8') });
+    } else {
+      debug(`Registry file ${entry.path} of ${componentName} not found in ${baseDir}`);
+    }
+  }
+  
+  // Checkouts without built registry items still have the ui sources
+  if (files.length === 0 && isDirectory) {
+    for (const filePath of await findSourceFiles(resolvedSource, componentName)) {
+      files.push({ path: toUiPath(filePath), content: await fs.readFile(filePath, 'utf8') });
+    }
+  }
+  
+  if (files.length === 0) {
+    throw new Error(`No source for ${componentName} found in ${resolvedSource}`);
+  }
+  
+  debug(`Read ${files.length} source files of ${componentName} from ${resolvedSource}`);
+  return {
+    files,
+    // Registry dependencies may be URLs or namespaced (@shadcn/button)
+    registryDependencies: (item?.registryDependencies || []).map(dependency => (dependency.split('/').pop() as string).replace(/\.json$/, ''))
+  };
+}
+
+/**
+ * Names of every known component, from loaded registry JSON and the built-in map
+ */
+export function getRegisteredComponentNames(): string[] {
+  return Array.from(new Set([...Object.keys(loadedRegistry), ...Object.keys(componentRegistry)])).sort();
+}
+
 /**
  * Get component dependencies from registry
  */
@@ -258,5 +641,6 @@ export function getComponentDependencies(componentName: string): ComponentDepend
   // Normalize to kebab-case for lookup
   const normalizedName = componentName.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
   
-  return componentRegistry[normalizedName] || null;
+  // Registry JSON takes precedence over the built-in map
+  return loadedRegistry[normalizedName] || componentRegistry[normalizedName] || null;
 }
\ No newline at end of file
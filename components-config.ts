@@ -0,0 +1,163 @@
+/**
+ * Resolves where shadcn components live from components.json and tsconfig paths
+ * This mirrors how the shadcn CLI decides where to write components
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { ts } from 'ts-morph';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:config');
+
+// Config files that may declare the "paths" used by components.json aliases
+const TSCONFIG_FILES = ['tsconfig.json', 'tsconfig.app.json', 'jsconfig.json'];
+
+/**
+ * Subset of components.json used to locate components
+ */
+export interface ComponentsConfig {
+  tsx?: boolean;
+  aliases?: {
+    components?: string;
+    ui?: string;
+    utils?: string;
+    lib?: string;
+    hooks?: string;
+  };
+}
+
+/**
+ * Resolved ui directory and how it was found
+ */
+export interface UiDirectory {
+  // Absolute path of the directory components are installed into
+  path: string;
+  // components.json alias it was resolved from, if any
+  alias?: string;
+  // Config file that mapped the alias to a path
+  configFile?: string;
+  // File extension of installed components
+  extension: '.tsx' | '.jsx';
+}
+
+interface PathMapping {
+  baseDir: string;
+  paths: Record<string, string[]>;
+  configFile: string;
+}
+
+/**
+ * Read components.json from the project root, or null when there is none
+ */
+export async function readComponentsConfig(projectRoot: string): Promise<ComponentsConfig | null> {
+  const configPath = path.join(projectRoot, 'components.json');
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read "paths" from the first tsconfig/jsconfig that declares them
+ */
+function readPathMapping(projectRoot: string): PathMapping | null {
+  for (const file of TSCONFIG_FILES) {
+    const configFile = path.join(projectRoot, file);
+    if (!existsSync(configFile)) continue;
+
+    // ts handles comments, trailing commas and "extends"
+    const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (error) {
+      debug(`Could not read ${configFile}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+      continue;
+    }
+
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, projectRoot, undefined, configFile);
+    if (options.paths) {
+      const baseDir = options.baseUrl || (options.pathsBasePath as string | undefined) || projectRoot;
+      return { baseDir, paths: options.paths, configFile };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compiler options that let TypeScript resolve the project's path aliases (e.g., @/components/ui/button)
+ */
+export function getPathCompilerOptions(projectRoot: string): { baseUrl?: string; paths?: Record<string, string[]> } {
+  const mapping = readPathMapping(projectRoot);
+  return mapping ? { baseUrl: mapping.baseDir, paths: mapping.paths } : {};
+}
+
+/**
+ * Resolve an alias such as @/components/ui through tsconfig paths
+ */
+function resolveAlias(alias: string, mapping: PathMapping): string | null {
+  let bestPrefix = -1;
+  let target: string | null = null;
+
+  for (const [pattern, targets] of Object.entries(mapping.paths)) {
+    if (targets.length === 0) continue;
+
+    // Longest matching prefix wins, as in the TypeScript resolver
+    const [prefix, suffix = ''] = pattern.split('*');
+    if (!pattern.includes('*')) {
+      if (alias === pattern && prefix.length > bestPrefix) {
+        bestPrefix = prefix.length;
+        target = targets[0];
+      }
+    } else if (alias.startsWith(prefix) && alias.endsWith(suffix) && prefix.length > bestPrefix) {
+      bestPrefix = prefix.length;
+      target = targets[0].replace('*', alias.slice(prefix.length, alias.length - suffix.length));
+    }
+  }
+
+  return target ? path.resolve(mapping.baseDir, target) : null;
+}
+
+/**
+ * Find the directory shadcn installs ui components into
+ * Without components.json the conventional components/ui locations are used
+ */
+export async function resolveUiDirectory(projectRoot: string): Promise<UiDirectory> {
+  const config = await readComponentsConfig(projectRoot);
+
+  if (!config) {
+    const srcDir = path.join(projectRoot, 'src', 'components', 'ui');
+    return {
+      path: existsSync(srcDir) ? srcDir : path.join(projectRoot, 'components', 'ui'),
+      extension: '.tsx'
+    };
+  }
+
+  const extension = config.tsx === false ? '.jsx' : '.tsx';
+  const alias = config.aliases?.ui || (config.aliases?.components && `${config.aliases.components}/ui`);
+  if (!alias) {
+    throw new Error('components.json has no "aliases.ui" or "aliases.components" entry');
+  }
+
+  // Plain relative paths do not need tsconfig
+  if (alias.startsWith('.') || path.isAbsolute(alias)) {
+    return { path: path.resolve(projectRoot, alias), alias, extension };
+  }
+
+  const mapping = readPathMapping(projectRoot);
+  if (!mapping) {
+    throw new Error(`Cannot resolve components.json alias "${alias}": no "paths" found in ${TSCONFIG_FILES.join(', ')}`);
+  }
+
+  const resolved = resolveAlias(alias, mapping);
+  if (!resolved) {
+    throw new Error(`Cannot resolve components.json alias "${alias}": no matching entry in "paths" of ${path.relative(projectRoot, mapping.configFile)}`);
+  }
+
+  debug(`Resolved ui alias ${alias} to ${resolved}`);
+  return { path: resolved, alias, configFile: mapping.configFile, extension };
+}
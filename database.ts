@@ -0,0 +1,339 @@
+/**
+ * SQLite persistence for extracted component types
+ * The tool creates and migrates its own schema, tracked with PRAGMA user_version
+ * Every save also records a revision so earlier extractions can be compared
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { v4 as uuid } from 'uuid';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:db');
+
+// Kept for compatibility with databases created before the path was configurable
+export const DEFAULT_DATABASE_PATH = '../components.db';
+
+/**
+ * Row written for each extracted component
+ */
+export interface ComponentRecord {
+  // Existing row to update; a new id is generated when inserting otherwise
+  id?: string;
+  // Normalized component name (e.g., alert-dialog), unique per database
+  name: string;
+  typescript: string;
+  dependencies: string[];
+  subComponents: string[];
+  variants: unknown[];
+  // Version of the shadcn CLI used to install the component, if known
+  shadcnVersion?: string | null;
+  // Radix package versions declared in package.json
+  packageVersions?: Record<string, string>;
+}
+
+/**
+ * One stored extraction of a component
+ */
+export interface ComponentRevision {
+  revision: number;
+  componentId: string;
+  name: string;
+  typescript: string;
+  contentHash: string;
+  shadcnVersion: string | null;
+  packageVersions: Record<string, string>;
+  createdAt: string;
+}
+
+interface RevisionRow {
+  revision: number;
+  component_id: string;
+  component_name: string;
+  typescript: string;
+  content_hash: string;
+  shadcn_version: string | null;
+  package_versions: string;
+  created_at: string;
+}
+
+export type ComponentDatabase = Database<sqlite3.Database, sqlite3.Statement>;
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: ComponentDatabase) => Promise<void>;
+}
+
+// Columns the components table needs; older tables get the missing ones added
+const COMPONENT_COLUMNS: Array<{ name: string; definition: string }> = [
+  { name: 'name', definition: 'TEXT' },
+  { name: 'typescript', definition: 'TEXT' },
+  { name: 'dependencies', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { name: 'sub_components', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { name: 'variants', definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { name: 'created_at', definition: 'TEXT' },
+  { name: 'updated_at', definition: 'TEXT' }
+];
+
+interface TableColumn {
+  name: string;
+  type: string;
+}
+
+/**
+ * Rebuild a legacy components table whose INTEGER ids cannot hold the generated uuids
+ * Existing ids are kept as text, so --component-id 12 still finds row 12
+ */
+async function convertIdsToText(db: ComponentDatabase): Promise<void> {
+  const columns = await db.all<TableColumn[]>('PRAGMA table_info(components)');
+  const definitions = columns.map(column => {
+    if (column.name === 'id') return 'id TEXT PRIMARY KEY';
+    const known = COMPONENT_COLUMNS.find(({ name }) => name === column.name);
+    return `${column.name} ${known ? known.definition : column.type}`;
+  });
+  const names = columns.map(column => column.name);
+
+  debug('Converting integer component ids to text');
+  await db.exec(`CREATE TABLE components_text_ids (${definitions.join(', ')})`);
+  await db.exec(`INSERT INTO components_text_ids (${names.join(', ')})
+    SELECT ${names.map(name => name === 'id' ? 'CAST(id AS TEXT)' : name).join(', ')} FROM components`);
+  await db.exec('DROP TABLE components');
+  await db.exec('ALTER TABLE components_text_ids RENAME TO components');
+}
+
+// Applied in order; append new migrations instead of editing old ones
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create components table keyed by name with JSON metadata columns',
+    up: async db => {
+      await db.exec(`CREATE TABLE IF NOT EXISTS components (
+        id TEXT PRIMARY KEY,
+        ${COMPONENT_COLUMNS.map(column => `${column.name} ${column.definition}`).join(',\n        ')}
+      )`);
+
+      // Tables created by other tools may predate these columns
+      const existing = await db.all<TableColumn[]>('PRAGMA table_info(components)');
+      for (const column of COMPONENT_COLUMNS) {
+        if (!existing.some(info => info.name === column.name)) {
+          debug(`Adding column ${column.name} to components`);
+          await db.exec(`ALTER TABLE components ADD COLUMN ${column.name} ${column.definition}`);
+        }
+      }
+
+      const idColumn = existing.find(info => info.name === 'id');
+      if (idColumn && idColumn.type.toUpperCase() !== 'TEXT') {
+        await convertIdsToText(db);
+      }
+
+      // Legacy tables allowed several rows per name; the most recently inserted one is kept
+      const duplicates = await db.run(`DELETE FROM components
+        WHERE name IS NOT NULL AND rowid NOT IN (SELECT MAX(rowid) FROM components WHERE name IS NOT NULL GROUP BY name)`);
+      if (duplicates.changes) {
+        debug(`Removed ${duplicates.changes} duplicate component rows`);
+      }
+
+      await db.exec('CREATE UNIQUE INDEX IF NOT EXISTS components_name ON components (name)');
+    }
+  },
+  {
+    version: 2,
+    description: 'Create component_revisions table',
+    up: async db => {
+      await db.exec(`CREATE TABLE IF NOT EXISTS component_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        component_id TEXT NOT NULL,
+        component_name TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        typescript TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        shadcn_version TEXT,
+        package_versions TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        UNIQUE (component_name, revision)
+      )`);
+    }
+  }
+];
+
+/**
+ * Bring the schema up to the latest migration
+ */
+async function migrate(db: ComponentDatabase): Promise<void> {
+  const row = await db.get<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version || 0;
+
+  for (const migration of MIGRATIONS.filter(m => m.version > currentVersion)) {
+    debug(`Applying migration ${migration.version}: ${migration.description}`);
+    await db.exec('BEGIN');
+    try {
+      await migration.up(db);
+      // PRAGMA does not accept bound parameters
+      await db.exec(`PRAGMA user_version = ${migration.version}`);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw new Error(`Migration ${migration.version} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Open the components database, creating and migrating it as needed
+ */
+export async function openComponentDatabase(filename: string = DEFAULT_DATABASE_PATH): Promise<ComponentDatabase> {
+  const db = await open({
+    filename: path.resolve(filename),
+    driver: sqlite3.Database
+  });
+
+  try {
+    await migrate(db);
+  } catch (error) {
+    await db.close();
+    throw error;
+  }
+
+  return db;
+}
+
+/**
+ * Hash of the TypeScript content, used to spot unchanged revisions
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Insert or update a component row and append a revision, in one transaction
+ * Returns the id of the component row
+ */
+export async function saveComponentRecord(db: ComponentDatabase, record: ComponentRecord): Promise<string> {
+  await db.exec('BEGIN');
+  try {
+    const id = await upsertComponent(db, record);
+    await insertRevision(db, id, record);
+    await db.exec('COMMIT');
+    return id;
+  } catch (error) {
+    await db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Insert or update a component row, keyed by id when given and by name otherwise
+ */
+async function upsertComponent(db: ComponentDatabase, record: ComponentRecord): Promise<string> {
+  const metadata = [
+    record.typescript,
+    JSON.stringify(record.dependencies),
+    JSON.stringify(record.subComponents),
+    JSON.stringify(record.variants)
+  ];
+
+  if (record.id) {
+    // Renaming the row onto a name another row holds would break the unique index
+    const conflict = await db.get<{ id: string }>('SELECT id FROM components WHERE name = ? AND id != ?', record.name, record.id);
+    if (conflict) {
+      throw new Error(`Cannot save ${record.name} as component ${record.id}: the name is already stored as component ${conflict.id}`);
+    }
+
+    const result = await db.run(
+      `UPDATE components
+       SET name = ?, typescript = ?, dependencies = ?, sub_components = ?, variants = ?, updated_at = datetime('now')
+       WHERE id = ?`,
+      record.name,
+      ...metadata,
+      record.id
+    );
+
+    if (result.changes && result.changes > 0) {
+      return record.id;
+    }
+  }
+
+  await db.run(
+    `INSERT INTO components (id, name, typescript, dependencies, sub_components, variants, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+     ON CONFLICT (name) DO UPDATE SET
+       typescript = excluded.typescript,
+       dependencies = excluded.dependencies,
+       sub_components = excluded.sub_components,
+       variants = excluded.variants,
+       updated_at = excluded.updated_at`,
+    record.id || uuid(),
+    record.name,
+    ...metadata
+  );
+
+  const row = await db.get<{ id: string }>('SELECT id FROM components WHERE name = ?', record.name);
+  if (!row) {
+    throw new Error(`Component ${record.name} was not written to the database`);
+  }
+  return row.id;
+}
+
+/**
+ * Append the next revision for a component
+ */
+async function insertRevision(db: ComponentDatabase, componentId: string, record: ComponentRecord): Promise<void> {
+  const latest = await db.get<{ revision: number | null }>(
+    'SELECT MAX(revision) AS revision FROM component_revisions WHERE component_name = ?',
+    record.name
+  );
+
+  await db.run(
+    `INSERT INTO component_revisions
+       (component_id, component_name, revision, typescript, content_hash, shadcn_version, package_versions, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))`,
+    componentId,
+    record.name,
+    (latest?.revision || 0) + 1,
+    record.typescript,
+    hashContent(record.typescript),
+    record.shadcnVersion || null,
+    JSON.stringify(record.packageVersions || {})
+  );
+}
+
+/**
+ * Convert a revision row to its public shape
+ */
+function toRevision(row: RevisionRow): ComponentRevision {
+  return {
+    revision: row.revision,
+    componentId: row.component_id,
+    name: row.component_name,
+    typescript: row.typescript,
+    contentHash: row.content_hash,
+    shadcnVersion: row.shadcn_version,
+    packageVersions: JSON.parse(row.package_versions || '{}'),
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * List every revision of a component, oldest first
+ */
+export async function listRevisions(db: ComponentDatabase, name: string): Promise<ComponentRevision[]> {
+  const rows = await db.all<RevisionRow[]>(
+    'SELECT * FROM component_revisions WHERE component_name = ? ORDER BY revision',
+    name
+  );
+  return rows.map(toRevision);
+}
+
+/**
+ * Get one revision of a component, or the latest when no number is given
+ */
+export async function getRevision(db: ComponentDatabase, name: string, revision?: number): Promise<ComponentRevision | null> {
+  const row = revision === undefined
+    ? await db.get<RevisionRow>('SELECT * FROM component_revisions WHERE component_name = ? ORDER BY revision DESC LIMIT 1', name)
+    : await db.get<RevisionRow>('SELECT * FROM component_revisions WHERE component_name = ? AND revision = ?', name, revision);
+
+  return row ? toRevision(row) : null;
+}
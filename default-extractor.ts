@@ -0,0 +1,103 @@
+/**
+ * Reads default prop values from component parameter destructuring
+ * e.g. function Button({ variant = "default", asChild = false, ...props }: ButtonProps)
+ */
+
+import { Node, ParameterDeclaration, SourceFile, SyntaxKind } from 'ts-morph';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:defaults');
+
+/**
+ * Default values keyed by prop name, as source text (e.g., { asChild: 'false' })
+ */
+export type PropDefaults = Record<string, string>;
+
+/**
+ * Read the defaults of a destructured props parameter
+ */
+export function getParameterDefaults(parameter: ParameterDeclaration): PropDefaults {
+  const defaults: PropDefaults = {};
+  const nameNode = parameter.getNameNode();
+
+  if (!Node.isObjectBindingPattern(nameNode)) {
+    return defaults;
+  }
+
+  nameNode.getElements().forEach(element => {
+    const initializer = element.getInitializer();
+    if (!initializer || element.getDotDotDotToken()) return;
+
+    // { variant: kind = "default" } destructures the "variant" prop
+    const propertyName = element.getPropertyNameNode()?.getText() || element.getName();
+    defaults[propertyName.replace(/^['"]|['"]$/g, '')] = initializer.getText();
+  });
+
+  return defaults;
+}
+
+/**
+ * Find the defaults used by components that take a named props type
+ * Covers annotated parameters and forwardRef<Element, Props>((props, ref) => ...)
+ */
+export function findPropsDefaults(sourceFile: SourceFile, typeName: string): PropDefaults {
+  const defaults: PropDefaults = {};
+  const typePattern = new RegExp(`\\b${typeName}\\b`);
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.Parameter).forEach(parameter => {
+    const typeNode = parameter.getTypeNode();
+    if (typeNode && typePattern.test(typeNode.getText())) {
+      Object.assign(defaults, getParameterDefaults(parameter));
+    }
+  });
+
+  sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+    if (!/(^|\.)forwardRef$/.test(call.getExpression().getText())) return;
+
+    const propsType = call.getTypeArguments()[1];
+    const render = call.getArguments()[0];
+    if (!propsType || !typePattern.test(propsType.getText())) return;
+
+    if (render && (Node.isArrowFunction(render) || Node.isFunctionExpression(render))) {
+      const parameter = render.getParameters()[0];
+      if (parameter) {
+        Object.assign(defaults, getParameterDefaults(parameter));
+      }
+    }
+  });
+
+  if (Object.keys(defaults).length > 0) {
+    debug(`Defaults for ${typeName}:`, defaults);
+  }
+  return defaults;
+}
+
+/**
+ * Read the defaults of the parameter a props type reference annotates
+ * e.g. the React.ComponentProps<...> in function AccordionItem({ ... }: React.ComponentProps<...>)
+ */
+export function getAnnotatedParameterDefaults(typeNode: Node): PropDefaults {
+  const parameter = typeNode.getFirstAncestorByKind(SyntaxKind.Parameter);
+  const annotation = parameter?.getTypeNode();
+
+  // The reference may be part of an intersection such as ComponentProps<"button"> & VariantProps<...>
+  const isAnnotation = annotation && (annotation === typeNode || typeNode.getAncestors().includes(annotation));
+  return parameter && isAnnotation ? getParameterDefaults(parameter) : {};
+}
+
+/**
+ * Convert a literal default (string, number, boolean, null) to its value
+ * Returns undefined for expressions that cannot be represented as JSON
+ */
+export function parseDefaultValue(text: string): string | number | boolean | null | undefined {
+  const trimmed = text.trim();
+  const stringMatch = trimmed.match(/^(['"`])([^'"`\\]*)\1$/);
+
+  if (stringMatch) return stringMatch[2];
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  return undefined;
+}
@@ -13,6 +13,7 @@ import findUp from 'find-up';
 import Debug from 'debug';
 import semver from 'semver';
 import prompts from 'prompts';
+import { PackageManager, detectPackageManager, getAddCommand } from './package-manager';
 
 const debug = Debug('shadcn:deps');
 
@@ -48,6 +49,11 @@ async function getPackageJson(): Promise<any> {
  * Implementation of dependency manager for shadcn components
  */
 export class ShadcnDependencyManager implements DependencyManager {
+  private readonly packageManager?: PackageManager;
+  
+  constructor(options: { packageManager?: PackageManager } = {}) {
+    this.packageManager = options.packageManager;
+  }
   
   /**
    * Detect dependencies for a component
@@ -132,7 +138,7 @@ export class ShadcnDependencyManager implements DependencyManager {
               message: `Install missing dependencies? (${missing.join(', ')})`,
               initial: true
             }),
-            new Promise(resolve => setTimeout(() => resolve({ install: true }), 5000))
+            new Promise<{ install: boolean }>(resolve => setTimeout(() => resolve({ install: true }), 5000))
           ]);
         };
         
@@ -146,18 +152,13 @@ export class ShadcnDependencyManager implements DependencyManager {
       }
       
       // Determine package manager
-      const hasYarnLock = await findUp('yarn.lock');
-      const packageManager = hasYarnLock ? 'yarn' : 'npm';
+      const packageManager = await detectPackageManager(this.packageManager);
+      const { command, args, cwd } = getAddCommand(packageManager, missing);
       
-      if (packageManager === 'yarn') {
-        await execa('yarn', ['add', ...missing], {
-          stdio: ['ignore', 'pipe', 'pipe']
-        });
-      } else {
-        await execa('npm', ['install', '--save', ...missing], {
-          stdio: ['ignore', 'pipe', 'pipe']
-        });
-      }
+      await execa(command, args, {
+        cwd,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
       
       spinner.succeed(`Successfully installed dependencies: ${missing.join(', ')}`);
       return true;
@@ -192,20 +193,14 @@ export class ShadcnDependencyManager implements DependencyManager {
   private async installSingleDependency(dependency: string): Promise<boolean> {
     try {
       // Determine package manager
-      const hasYarnLock = await findUp('yarn.lock');
-      const packageManager = hasYarnLock ? 'yarn' : 'npm';
+      const packageManager = await detectPackageManager(this.packageManager);
+      const { command, args, cwd } = getAddCommand(packageManager, [dependency]);
       
-      if (packageManager === 'yarn') {
-        await execa('yarn', ['add', dependency], {
-          stdio: ['ignore', 'pipe', 'pipe'],
-          timeout: 60000
-        });
-      } else {
-        await execa('npm', ['install', '--save', dependency], {
-          stdio: ['ignore', 'pipe', 'pipe'],
-          timeout: 60000
-        });
-      }
+      await execa(command, args, {
+        cwd,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: 60000
+      });
       
       return true;
     } catch (error) {
@@ -1,12 +1,13 @@
 import { exec, spawn } from 'child_process';
 import { promises as fs, existsSync } from 'fs';
 import path from 'path';
-import { Project, SyntaxKind, Node, TypeReferenceNode } from 'ts-morph';
+import { Project, SyntaxKind, Node, SourceFile, TypeReferenceNode } from 'ts-morph';
 import chalk from 'chalk';
 import ora from 'ora';
 import findUp from 'find-up';
 import globPromise from 'glob-promise';
 import { promisify } from 'util';
+import stripAnsi from 'strip-ansi';
 import logSymbols from 'log-symbols';
 import prettier from 'prettier';
 import kill from 'tree-kill';
@@ -22,9 +23,24 @@ import { v4 as uuid } from 'uuid';
 import mem from 'mem';
 import fastSafeStringify from 'fast-safe-stringify';
 import * as pacote from 'pacote';
-import { parse as parseImports } from 'es-module-lexer';
-import sqlite3 from 'sqlite3';
-import { open } from 'sqlite';
+import { ExpandedPropsType, expandPropsType, renderExpandedInterface, renderMember } from './prop-expander';
+import { PropDefaults, findPropsDefaults, getAnnotatedParameterDefaults } from './default-extractor';
+import { ExportedComponent, findExportedComponents } from './component-extractor';
+import { VariantDefinition, extractVariants, getVariantBaseName, renderVariantMembers, renderVariantTypes, replaceVariantPropsReferences } from './variant-extractor';
+import { generateJsonSchema } from './json-schema-generator';
+import { ZodGeneratorOptions, generateZodSchemas } from './zod-generator';
+import { getComponentDependencies, loadRegistry, readComponentSources } from './component-registry';
+import { PrimitiveData, analyzePrimitives, renderPrimitiveImport } from './primitive-analyzer';
+import { findModuleImports, groupDependencies } from './import-analyzer';
+import { getPathCompilerOptions, resolveUiDirectory } from './components-config';
+import { LocalTypeImport, collectLocalReferences, renderLocalTypeImports } from './local-imports';
+import { ShadcnDependencyManager } from './dependency-manager';
+import { ComponentDatabase, getRevision, openComponentDatabase, saveComponentRecord } from './database';
+import { PropsChange, compareSnapshots, snapshotPropsTypes } from './props-diff';
+import { PropsDiagnostic, formatDiagnostic, validatePropsText } from './props-validator';
+import { PackageManager, detectPackageManager, getAddCommand } from './package-manager';
+import { ScratchWorkspace, createScratchWorkspace, removeScratchWorkspace } from './workspace';
+import { writeBarrel } from './barrel';
 
 // Set up debug logging
 const debug = Debug('shadcn:props');
@@ -38,46 +54,287 @@ const killPromise = promisify(kill);
 // Used to track original component names for better error messages
 const originalComponentNames = new Map<string, string>();
 
+// Set in --json mode so stdout only carries the JSON document
+let jsonOutput = false;
+
+/**
+ * Print decorative output unless JSON output is enabled
+ */
+function log(...args: unknown[]): void {
+  if (!jsonOutput) {
+    console.log(...args);
+  }
+}
+
+/**
+ * Start a spinner that stays silent in JSON mode
+ */
+function createSpinner(text: string): ora.Ora {
+  return ora({ text, isSilent: jsonOutput }).start();
+}
+
 interface ComponentData {
   componentName: string;
   normalizedName: string;
   pascalName: string;
   subComponents: string[];
   dependencies: Set<string>;
+  typeDependencies: Set<string>;
   primitiveImports: Map<string, string>;
+  primitives: PrimitiveData[];
+  components: ExportedComponent[];
+  localImports: LocalTypeImport[];
+  expandedProps: ExpandedPropsType[];
+  variants: VariantDefinition[];
+  files: string[];
+  warnings: string[];
+  propDefaults: Record<string, PropDefaults>;
+  collisions: TypeNameCollision[];
+  diagnostics: PropsDiagnostic[];
+  // Default props interfaces were emitted because nothing could be extracted
+  usedDefaults: boolean;
+}
+
+/**
+ * A props type found in a component file and where it came from
+ */
+interface FoundProps {
+  typeName: string;
+  text: string;
+  // Exported component or declaration that produced the type (e.g., SheetContent)
+  source: string;
+}
+
+/**
+ * Several parts that map to the same emitted type name; the first one is kept
+ */
+interface TypeNameCollision {
+  typeName: string;
+  sources: string[];
+}
+
+// Output formats that can be written alongside the TypeScript props file
+const OUTPUT_FORMATS = ['json-schema', 'zod'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Props file name used when no template is configured
+const DEFAULT_FILE_NAME = '{Pascal}Props.ts';
+
+interface ExtractOptions {
+  // Resolve every prop member through the type checker instead of copying alias text
+  expanded?: boolean;
+  // Additional formats to generate from the extracted props
+  formats?: OutputFormat[];
+  // Function and ReactNode handling for the zod format
+  zod?: ZodGeneratorOptions;
+  // Shared ts-morph project, reused across components in batch runs
+  project?: Project;
+  // Force a package manager instead of detecting it from lockfiles
+  packageManager?: PackageManager;
+  // Leave missing npm dependencies uninstalled (used when only reading props)
+  skipInstall?: boolean;
+  // Component files that only exist in the project (offline mode) instead of the ui directory
+  sourceFiles?: string[];
+  // Directory generated files are written to (defaults to the current directory)
+  outDir?: string;
+  // File name template of the props file (defaults to {Pascal}Props.ts)
+  fileName?: string;
+  // Emitted type names to replace (e.g., { ButtonProps: 'ShadcnButtonProps' })
+  typeNames?: Record<string, string>;
+  // Aborted when the extraction timed out: running installs are killed and nothing more is written
+  signal?: AbortSignal;
+  // Time limit for each dependency install command (ms)
+  installTimeout?: number;
+  // Directory components are installed into and read from (defaults to the current directory)
+  cwd?: string;
+  // Project a scratch workspace in cwd was copied from; relative imports in generated files point into it
+  projectRoot?: string;
+}
+
+interface MainOptions extends ExtractOptions {
+  // Row to update; rows are otherwise matched by component name
+  componentId?: string;
+  // SQLite database file (defaults to ../components.db)
+  database?: string;
+  // Report what would happen without installing or writing anything
+  dryRun?: boolean;
+  // Older name for dryRun, kept for existing scripts
+  depsOnly?: boolean;
+  cleanup?: boolean;
+  // registry.json, registry item file or directory to load component definitions from
+  registrySource?: string;
+  // Print one JSON document instead of decorated output
+  json?: boolean;
+  // Type-check the generated props file before saving it (defaults to true)
+  validate?: boolean;
+  // Add imports for names the generated file uses without importing them
+  fixImports?: boolean;
+  // Refuse to write a props file that does not compile
+  strict?: boolean;
+  // Registry checkout or JSON bundle to read component sources from instead of running the shadcn CLI
+  offline?: string;
+  // Install and extract in a temporary copy of the project configuration, leaving the project unchanged
+  isolated?: boolean;
+  // Time limit for extracting one component (ms)
+  timeout?: number;
+  // Time limit for each install command of one component: the shadcn CLI and its dependencies (ms)
+  installTimeout?: number;
+  // Write an index.ts to the output directory that re-exports every props file
+  barrel?: boolean;
+}
+
+interface ProcessedComponent {
+  componentData: ComponentData;
+  propsText: string;
+  fileName: string;
+  additionalFiles: string[];
+  versions: InstalledVersions;
+}
+
+/**
+ * Versions recorded with database revisions, read from the directory the component was installed into
+ */
+interface InstalledVersions {
+  shadcnVersion: string | null;
+  packageVersions: Record<string, string>;
+}
+
+interface ExtractionPlan {
+  component: string;
+  installed: boolean;
+  // Existing component files that would be read
+  componentFiles: string[];
+  // Component and output files that would be written
+  filesToCreate: string[];
+  dependencies: {
+    installed: string[];
+    missing: string[];
+  };
+  typeNames: string[];
+}
+
+interface DiffOptions extends ExtractOptions {
+  // Previously generated props file to compare against (defaults to the configured props file)
+  against?: string;
+  // Stored revision to compare against instead of a file
+  revision?: number | 'latest';
+  database?: string;
+  registrySource?: string;
+  json?: boolean;
+}
+
+interface PropsDiffResult {
+  component: string;
+  // Where the previous props came from
+  baseline: string;
+  changes: PropsChange[];
+  breaking: boolean;
+  warnings: string[];
+}
+
+interface BatchResult {
+  component: string;
+  success: boolean;
+  fileName?: string;
+  additionalFiles: string[];
+  typeCount: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Machine-readable result of extracting one component (--json)
+ */
+interface ComponentReport {
+  component: string;
+  success: boolean;
+  // Component files the props were read from
+  files: string[];
+  // Props file and additional format files that were written
+  outputFiles: string[];
+  // Packages imported at runtime
+  dependencies: string[];
+  // Packages only imported for types (import type, export type, import("x").Type)
+  typeDependencies: string[];
+  primitiveImports: Record<string, string>;
+  // Every primitive with its package, import style and the sub-components used from it
+  primitives: PrimitiveData[];
+  // Exported components with their props type and ref element type
+  components: Array<Omit<ExportedComponent, 'propsNode'>>;
+  // Type names produced by more than one part
+  collisions: TypeNameCollision[];
+  // Compiler errors left in the generated props file
+  diagnostics: PropsDiagnostic[];
+  subComponents: string[];
+  types: string[];
+  // Destructuring defaults per props type (e.g., { ButtonProps: { asChild: 'false' } })
+  defaults: Record<string, PropDefaults>;
+  // JSDoc descriptions of resolved members per props type
+  descriptions: Record<string, Record<string, string>>;
+  warnings: string[];
+  error?: string;
 }
 
 /**
- * Save TypeScript content to SQLite database
+ * Save TypeScript content and metadata to the SQLite database
+ * Returns the id of the component row
  */
-async function saveToDatabase(componentId: string, typescriptContent: string): Promise<void> {
+async function saveToDatabase(componentData: ComponentData, typescriptContent: string, versions: InstalledVersions, 
+                              options: MainOptions): Promise<string> {
+  let db: ComponentDatabase | null = null;
+  
   try {
-    // Open the database connection
-    const db = await open({
-      filename: '../components.db',
-      driver: sqlite3.Database
+    db = await openComponentDatabase(options.database);
+    return await saveComponentRecord(db, {
+      id: options.componentId,
+      name: componentData.normalizedName,
+      typescript: typescriptContent,
+      dependencies: [...componentData.dependencies],
+      subComponents: componentData.subComponents,
+      variants: componentData.variants,
+      ...versions
     });
-    
-    // Update the component with the TypeScript content
-    const result = await db.run(
-      `UPDATE components 
-       SET typescript = ?, updated_at = datetime('now') 
-       WHERE id = ?`,
-      typescriptContent, 
-      componentId
-    );
-    
-    if (result.changes === 0) {
-      throw new Error(`No component found with ID: ${componentId}`);
-    }
-    
-    await db.close();
-    console.log(chalk.green(`${logSymbols.success} TypeScript content saved to database for component ID: ${componentId}`));
   } catch (error) {
     throw new Error(`Failed to save to database: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await db?.close();
+  }
+}
+
+/**
+ * Save a processed component to the database, recording failures as warnings
+ */
+async function persistComponent(processed: ProcessedComponent, options: MainOptions): Promise<void> {
+  const { componentData, fileName, versions } = processed;
+  const spinner = createSpinner(`Saving ${componentData.componentName} to database...`);
+  
+  try {
+    // Read file content
+    const fileContent = await fs.readFile(fileName, 'utf-8');
+    
+    const id = await saveToDatabase(componentData, fileContent, versions, options);
+    spinner.succeed(`Saved ${componentData.componentName} to database (component ID: ${id})`);
+  } catch (dbError) {
+    spinner.fail(dbError instanceof Error ? dbError.message : String(dbError));
+    componentData.warnings.push(dbError instanceof Error ? dbError.message : String(dbError));
   }
 }
 
+/**
+ * Parse and validate the comma-separated --format option
+ */
+function parseFormats(value?: string): OutputFormat[] {
+  if (!value) return [];
+  
+  const formats = value.split(',').map(format => format.trim()).filter(Boolean);
+  const unknown = formats.filter(format => !(OUTPUT_FORMATS as readonly string[]).includes(format));
+  
+  if (unknown.length > 0) {
+    throw new Error(`Unknown output format(s): ${unknown.join(', ')}. Supported: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  
+  return formats as OutputFormat[];
+}
 
 /**
  * Normalize component name to handle hyphenated names correctly
@@ -102,33 +359,45 @@ function normalizeComponentName(input: string): ComponentData {
     normalizedName, 
     pascalName,
     subComponents: [], // Will be populated during extraction
-    dependencies: new Set<string>(), // Dependencies to install
-    primitiveImports: new Map<string, string>() // Imports for primitives like AccordionPrimitive
+    dependencies: new Set<string>(), // Packages imported at runtime
+    typeDependencies: new Set<string>(), // Packages only imported for types
+    primitiveImports: new Map<string, string>(), // Imports for primitives like AccordionPrimitive
+    primitives: [], // Every primitive import found in the component files, with its import style
+    components: [], // Components exported by the component files
+    localImports: [], // Components from other local files referenced with typeof
+    expandedProps: [], // Populated in expanded mode
+    variants: [], // cva(...) definitions found in component files
+    files: [], // Component files props were extracted from
+    warnings: [], // Fallbacks and recoverable problems, reported in --json mode
+    propDefaults: {}, // Destructuring defaults per props type
+    collisions: [], // Parts that mapped to the same type name
+    diagnostics: [], // Compiler errors in the generated props file
+    usedDefaults: false
   };
 }
 
 /**
- * Find the root directory of the project
+ * Find the root directory of the project containing a directory (the current one by default)
  */
-async function findProjectRoot(): Promise<string> {
+async function findProjectRoot(cwd: string = process.cwd()): Promise<string> {
   try {
-    const packageJsonPath = await findUp('package.json');
+    const packageJsonPath = await findUp('package.json', { cwd });
     if (!packageJsonPath) {
-      return process.cwd();
+      return cwd;
     }
     return path.dirname(packageJsonPath);
   } catch (error) {
     debug('Error finding project root:', error);
-    return process.cwd();
+    return cwd;
   }
 }
 
 /**
  * Get package.json content
  */
-async function getPackageJson(): Promise<any> {
+async function getPackageJson(cwd?: string): Promise<any> {
   try {
-    const projectRoot = await findProjectRoot();
+    const projectRoot = await findProjectRoot(cwd);
     const packageJsonPath = path.join(projectRoot, 'package.json');
     
     if (existsSync(packageJsonPath)) {
@@ -145,8 +414,8 @@ async function getPackageJson(): Promise<any> {
 /**
  * Get list of installed dependencies
  */
-async function getInstalledDependencies(): Promise<string[]> {
-  const packageJson = await getPackageJson();
+async function getInstalledDependencies(cwd?: string): Promise<string[]> {
+  const packageJson = await getPackageJson(cwd);
   if (!packageJson) return [];
   
   const dependencies = packageJson.dependencies || {};
@@ -155,24 +424,59 @@ async function getInstalledDependencies(): Promise<string[]> {
   return [...Object.keys(dependencies), ...Object.keys(devDependencies)];
 }
 
+/**
+ * Radix package versions declared in package.json
+ */
+async function getRadixVersions(cwd?: string): Promise<Record<string, string>> {
+  const packageJson = await getPackageJson(cwd);
+  if (!packageJson) return {};
+  
+  const declared: Record<string, string> = { ...packageJson.devDependencies, ...packageJson.dependencies };
+  return R.pickBy((_: string, name: string) => name.startsWith('@radix-ui/') || name === 'radix-ui', declared);
+}
+
+/**
+ * Version of the locally installed shadcn CLI, or null when npx runs a published one
+ * The registry is not asked, so saving works offline and never records a version that was not used
+ */
+const getShadcnVersion = mem(async function(cwd: string = process.cwd()): Promise<string | null> {
+  try {
+    // Found above the project too, e.g. in a monorepo root or the node_modules linked into a workspace
+    const localPackage = await findUp(path.join('node_modules', 'shadcn', 'package.json'), { cwd });
+    if (localPackage) {
+      return JSON.parse(await fs.readFile(localPackage, 'utf8')).version || null;
+    }
+    return null;
+  } catch (error) {
+    debug('Could not determine shadcn version:', error);
+    return null;
+  }
+});
+
 /**
  * Execute a command with timeout and proper error handling
  */
-function executeWithTimeout(command: string, args: string[], options: execa.Options = {}): Promise<string> {
+function executeWithTimeout(command: string, args: string[], options: execa.Options = {}, 
+                            timeout: number = OPERATION_TIMEOUT, signal?: AbortSignal): Promise<string> {
   return new Promise((resolve, reject) => {
     const childProcess = execa(command, args, {
       ...options,
-      timeout: OPERATION_TIMEOUT, // Add timeout to execa options
+      timeout, // Add timeout to execa options
       stripFinalNewline: true
     });
     
+    // Package managers spawn their own children, so the whole tree is killed
+    const cancel = (): void => kill(childProcess.pid as number);
+    signal?.addEventListener('abort', cancel, { once: true });
+    childProcess.finally(() => signal?.removeEventListener('abort', cancel)).catch(() => undefined);
+    
     let output = '';
     
     childProcess.stdout?.on('data', (data) => {
       const text = data.toString();
       output += text;
       // Output installation progress
-      if (text.trim() && !text.includes('npm WARN')) {
+      if (text.trim() && !text.includes('npm WARN') && !jsonOutput) {
         process.stdout.write('.');
       }
     });
@@ -189,7 +493,9 @@ function executeWithTimeout(command: string, args: string[], options: execa.Opti
     }).catch((error) => {
       // If it's a timeout error, provide clear feedback
       if (error.timedOut) {
-        reject(new Error(`Command timed out after ${OPERATION_TIMEOUT / 1000} seconds: ${command} ${args.join(' ')}`));
+        reject(new Error(`Command timed out after ${timeout / 1000} seconds: ${command} ${args.join(' ')}`));
+      } else if (signal?.aborted) {
+        reject(new Error(`Command cancelled: ${command} ${args.join(' ')}`));
       } else {
         reject(new Error(`Command failed: ${error.message}\nOutput: ${output}`));
       }
@@ -197,51 +503,72 @@ function executeWithTimeout(command: string, args: string[], options: execa.Opti
   });
 }
 
+/**
+ * Get the installed file paths of a shadcn component, if any
+ */
+async function getInstalledComponentPaths(componentData: ComponentData, cwd?: string): Promise<string[]> {
+  const projectRoot = await findProjectRoot(cwd);
+  const { normalizedName } = componentData;
+  const uiDir = await resolveUiDirectory(projectRoot);
+  
+  const potentialPaths = [
+    path.join(uiDir.path, `${normalizedName}${uiDir.extension}`),
+    path.join(uiDir.path, normalizedName, `index${uiDir.extension}`)
+  ];
+  
+  return potentialPaths.filter(p => existsSync(p));
+}
+
 /**
  * Check if a shadcn component is already installed
  */
-const isComponentInstalled = mem(async function(componentData: ComponentData): Promise<boolean> {
+const isComponentInstalled = mem(async function(componentData: ComponentData, cwd?: string): Promise<boolean> {
   try {
-    const projectRoot = await findProjectRoot();
-    const { normalizedName } = componentData;
-    
-    const potentialPaths = [
-      path.join(projectRoot, 'components', 'ui', `${normalizedName}.tsx`),
-      path.join(projectRoot, 'src', 'components', 'ui', `${normalizedName}.tsx`),
-      path.join(projectRoot, 'components', 'ui', normalizedName, 'index.tsx'),
-      path.join(projectRoot, 'src', 'components', 'ui', normalizedName, 'index.tsx')
-    ];
-    
-    return potentialPaths.some(p => existsSync(p));
+    return (await getInstalledComponentPaths(componentData, cwd)).length > 0;
   } catch (error) {
     debug('Error checking if component is installed:', error);
     return false;
   }
-}, { maxAge: 5000 });
+}, { 
+  maxAge: 5000, 
+  // A scratch workspace and the project answer differently for the same component
+  cacheKey: ([componentData, cwd]) => `${path.resolve(cwd || process.cwd())}:${componentData.normalizedName}`
+});
 
 /**
- * Install npm dependencies
+ * Install npm dependencies with the project's package manager
  */
-async function installDependencies(dependencies: string[]): Promise<void> {
+async function installDependencies(dependencies: string[], forcedManager?: PackageManager, signal?: AbortSignal, 
+                                   cwd?: string, timeout: number = OPERATION_TIMEOUT): Promise<void> {
   if (dependencies.length === 0) return;
   
-  const spinner = ora(`Installing dependencies: ${dependencies.join(", ")}...`).start();
+  const packageManager = await detectPackageManager(forcedManager, cwd);
+  const spinner = createSpinner(`Installing dependencies with ${packageManager.name}: ${dependencies.join(", ")}...`);
   
   try {
-    await executeWithTimeout('npm', ['install', '--save', ...dependencies], {
+    const { command, args, cwd } = getAddCommand(packageManager, dependencies);
+    await executeWithTimeout(command, args, {
+      cwd,
       env: { ...process.env, FORCE_COLOR: 'true' }
-    });
+    }, timeout, signal);
     spinner.succeed(`Successfully installed dependencies: ${dependencies.join(", ")}`);
   } catch (error) {
+    if (signal?.aborted) {
+      spinner.fail('Dependency installation cancelled');
+      return;
+    }
+    
     spinner.warn(`Issues installing some dependencies: ${error instanceof Error ? error.message : String(error)}`);
     
     // Try installing one by one if batch installation fails
     for (const dep of dependencies) {
       try {
         spinner.text = `Installing ${dep}...`;
-        await executeWithTimeout('npm', ['install', '--save', dep], {
+        const { command, args, cwd } = getAddCommand(packageManager, [dep]);
+        await executeWithTimeout(command, args, {
+          cwd,
           env: { ...process.env, FORCE_COLOR: 'true' }
-        });
+        }, timeout, signal);
         spinner.succeed(`Installed ${dep}`);
       } catch (err) {
         spinner.fail(`Failed to install ${dep}: ${err instanceof Error ? err.message : String(err)}`);
@@ -253,12 +580,13 @@ async function installDependencies(dependencies: string[]): Promise<void> {
 /**
  * Install shadcn component using CLI with proper error handling
  */
-async function installShadcnComponent(componentData: ComponentData): Promise<boolean> {
+async function installShadcnComponent(componentData: ComponentData, timeout: number = OPERATION_TIMEOUT, 
+                                      signal?: AbortSignal, cwd: string = process.cwd()): Promise<boolean> {
   const { componentName, normalizedName, pascalName } = componentData;
-  const spinner = ora(`Installing ${componentName} component...`).start();
+  const spinner = createSpinner(`Installing ${componentName} component...`);
 
   // Check if already installed
-  if (await isComponentInstalled(componentData)) {
+  if (await isComponentInstalled(componentData, cwd)) {
     spinner.succeed(`Component ${componentName} appears to already be installed`);
     return true;
   }
@@ -267,43 +595,49 @@ async function installShadcnComponent(componentData: ComponentData): Promise<boo
     // Attempt to install with the modern CLI
     return await new Promise<boolean>((resolve) => {
       const childProcess = spawn('npx', ['--yes', 'shadcn@latest', 'add', normalizedName, '--yes'], {
+        cwd,
         shell: true,
         stdio: ['pipe', 'pipe', 'pipe']
       });
       
       childProcess.stdin?.write('y\n');
       
-      // Capture output to detect dependencies
-      let output = '';
+      // Dependencies are read from the installed files afterwards
       childProcess.stdout?.on('data', (data) => {
         const text = data.toString();
-        output += text;
         
         // Auto-respond to any CLI prompts
         if (text.includes('?') || text.includes('Would you like')) {
           childProcess.stdin?.write('y\n');
         }
-        
-        // Parse for used dependencies
-        if (text.includes('import') || text.includes('from')) {
-          detectDependenciesFromText(text, componentData);
-        }
       });
       
       // Set timeout to avoid hanging
       const timeoutId = setTimeout(() => {
         try {
           kill(childProcess.pid as number);
-          spinner.warn(`Installation timed out after ${OPERATION_TIMEOUT/1000} seconds, will use fallback`);
+          spinner.warn(`Installation timed out after ${timeout/1000} seconds, will use fallback`);
+          componentData.warnings.push(`shadcn CLI installation timed out after ${timeout/1000} seconds`);
           resolve(false);
         } catch (error) {
           spinner.warn(`Failed to kill timed out process`);
           resolve(false);
         }
-      }, OPERATION_TIMEOUT);
+      }, timeout);
+      
+      // A cancelled extraction kills the CLI and does not try the fallback
+      const cancel = (): void => {
+        clearTimeout(timeoutId);
+        kill(childProcess.pid as number);
+        spinner.fail(`Installation of ${componentName} cancelled`);
+        resolve(false);
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
       
       childProcess.on('close', (code) => {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', cancel);
+        if (signal?.aborted) return;
         
         if (code === 0) {
           spinner.succeed(`Successfully installed ${componentName}`);
@@ -312,17 +646,13 @@ async function installShadcnComponent(componentData: ComponentData): Promise<boo
           spinner.warn(`Primary installation method failed with code ${code}, trying fallback...`);
           
           // Try alternative installation as fallback
-          execa('npx', ['--yes', 'shadcn-ui@latest', 'add', normalizedName, '--yes'], {
-            timeout: 30000,
-          }).then((result) => {
-            // Parse output for dependency detection
-            if (result.stdout) {
-              detectDependenciesFromText(result.stdout, componentData);
-            }
+          executeWithTimeout('npx', ['--yes', 'shadcn-ui@latest', 'add', normalizedName, '--yes'], { cwd }, timeout, signal).then(() => {
             spinner.succeed(`Successfully installed ${componentName} using fallback method`);
+            componentData.warnings.push('Installed with the legacy shadcn-ui CLI after shadcn failed');
             resolve(true);
           }).catch(() => {
             spinner.warn(`All installation methods failed for ${componentName}`);
+            componentData.warnings.push(`All installation methods failed for ${componentName}`);
             resolve(false);
           });
         }
@@ -330,19 +660,17 @@ async function installShadcnComponent(componentData: ComponentData): Promise<boo
       
       childProcess.on('error', () => {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', cancel);
+        if (signal?.aborted) return;
         spinner.warn(`Installation error occurred, trying fallback...`);
         
-        execa('npx', ['--yes', 'shadcn-ui@latest', 'add', normalizedName, '--yes'], {
-          timeout: 30000,
-        }).then((result) => {
-          // Parse output for dependency detection
-          if (result.stdout) {
-            detectDependenciesFromText(result.stdout, componentData);
-          }
+        executeWithTimeout('npx', ['--yes', 'shadcn-ui@latest', 'add', normalizedName, '--yes'], { cwd }, timeout, signal).then(() => {
           spinner.succeed(`Successfully installed ${componentName} using fallback method`);
+          componentData.warnings.push('Installed with the legacy shadcn-ui CLI after shadcn failed');
           resolve(true);
         }).catch(() => {
           spinner.warn(`All installation methods failed for ${componentName}`);
+          componentData.warnings.push(`All installation methods failed for ${componentName}`);
           resolve(false);
         });
       });
@@ -354,281 +682,61 @@ async function installShadcnComponent(componentData: ComponentData): Promise<boo
 }
 
 /**
- * Detect dependencies from text output
- */
-function detectDependenciesFromText(text: string, componentData: ComponentData): void {
-  // Common Radix UI components patterns
-  const radixPatterns = [
-    { regex: /@radix-ui\/react-accordion/gi, dependency: '@radix-ui/react-accordion', primitive: 'AccordionPrimitive' },
-    { regex: /@radix-ui\/react-alert-dialog/gi, dependency: '@radix-ui/react-alert-dialog', primitive: 'AlertDialogPrimitive' },
-    { regex: /@radix-ui\/react-aspect-ratio/gi, dependency: '@radix-ui/react-aspect-ratio', primitive: 'AspectRatioPrimitive' },
-    { regex: /@radix-ui\/react-avatar/gi, dependency: '@radix-ui/react-avatar', primitive: 'AvatarPrimitive' },
-    { regex: /@radix-ui\/react-checkbox/gi, dependency: '@radix-ui/react-checkbox', primitive: 'CheckboxPrimitive' },
-    { regex: /@radix-ui\/react-collapsible/gi, dependency: '@radix-ui/react-collapsible', primitive: 'CollapsiblePrimitive' },
-    { regex: /@radix-ui\/react-context-menu/gi, dependency: '@radix-ui/react-context-menu', primitive: 'ContextMenuPrimitive' },
-    { regex: /@radix-ui\/react-dialog/gi, dependency: '@radix-ui/react-dialog', primitive: 'DialogPrimitive' },
-    { regex: /@radix-ui\/react-dropdown-menu/gi, dependency: '@radix-ui/react-dropdown-menu', primitive: 'DropdownMenuPrimitive' },
-    { regex: /@radix-ui\/react-hover-card/gi, dependency: '@radix-ui/react-hover-card', primitive: 'HoverCardPrimitive' },
-    { regex: /@radix-ui\/react-label/gi, dependency: '@radix-ui/react-label', primitive: 'LabelPrimitive' },
-    { regex: /@radix-ui\/react-menubar/gi, dependency: '@radix-ui/react-menubar', primitive: 'MenubarPrimitive' },
-    { regex: /@radix-ui\/react-navigation-menu/gi, dependency: '@radix-ui/react-navigation-menu', primitive: 'NavigationMenuPrimitive' },
-    { regex: /@radix-ui\/react-popover/gi, dependency: '@radix-ui/react-popover', primitive: 'PopoverPrimitive' },
-    { regex: /@radix-ui\/react-progress/gi, dependency: '@radix-ui/react-progress', primitive: 'ProgressPrimitive' },
-    { regex: /@radix-ui\/react-radio-group/gi, dependency: '@radix-ui/react-radio-group', primitive: 'RadioGroupPrimitive' },
-    { regex: /@radix-ui\/react-scroll-area/gi, dependency: '@radix-ui/react-scroll-area', primitive: 'ScrollAreaPrimitive' },
-    { regex: /@radix-ui\/react-select/gi, dependency: '@radix-ui/react-select', primitive: 'SelectPrimitive' },
-    { regex: /@radix-ui\/react-separator/gi, dependency: '@radix-ui/react-separator', primitive: 'SeparatorPrimitive' },
-    { regex: /@radix-ui\/react-slider/gi, dependency: '@radix-ui/react-slider', primitive: 'SliderPrimitive' },
-    { regex: /@radix-ui\/react-slot/gi, dependency: '@radix-ui/react-slot', primitive: 'Slot' },
-    { regex: /@radix-ui\/react-switch/gi, dependency: '@radix-ui/react-switch', primitive: 'SwitchPrimitive' },
-    { regex: /@radix-ui\/react-tabs/gi, dependency: '@radix-ui/react-tabs', primitive: 'TabsPrimitive' },
-    { regex: /@radix-ui\/react-toast/gi, dependency: '@radix-ui/react-toast', primitive: 'ToastPrimitive' },
-    { regex: /@radix-ui\/react-toggle/gi, dependency: '@radix-ui/react-toggle', primitive: 'TogglePrimitive' },
-    { regex: /@radix-ui\/react-toggle-group/gi, dependency: '@radix-ui/react-toggle-group', primitive: 'ToggleGroupPrimitive' },
-    { regex: /@radix-ui\/react-tooltip/gi, dependency: '@radix-ui/react-tooltip', primitive: 'TooltipPrimitive' },
-  ];
-  
-  // Other common library patterns
-  const otherPatterns = [
-    { regex: /date-fns/gi, dependency: 'date-fns' },
-    { regex: /react-day-picker/gi, dependency: 'react-day-picker' },
-    { regex: /cmdk/gi, dependency: 'cmdk' },
-    { regex: /next-themes/gi, dependency: 'next-themes' },
-    { regex: /sonner/gi, dependency: 'sonner' },
-    { regex: /tailwind-merge/gi, dependency: 'tailwind-merge' },
-    { regex: /class-variance-authority/gi, dependency: 'class-variance-authority' },
-  ];
-  
-  // Check for Radix UI dependencies
-  radixPatterns.forEach(({ regex, dependency, primitive }) => {
-    if (regex.test(text)) {
-      componentData.dependencies.add(dependency);
-      componentData.primitiveImports.set(primitive, dependency);
-    }
-  });
-  
-  // Check for other dependencies
-  otherPatterns.forEach(({ regex, dependency }) => {
-    if (regex.test(text)) {
-      componentData.dependencies.add(dependency);
-    }
-  });
-  
-  // Try to parse any import statements directly
-  try {
-    const importLines = text
-      .split('\n')
-      .filter(line => line.includes('import') && line.includes('from'))
-      .join('\n');
-    
-    if (importLines) {
-      const [imports] = parseImports(importLines);
-      imports.forEach(imp => {
-        if (imp.n && imp.n.startsWith('@') && !imp.n.startsWith('@/')) {
-          componentData.dependencies.add(imp.n);
-          
-          // Try to extract primitive name
-          const primitiveName = extractPrimitiveName(imp.n);
-          if (primitiveName) {
-            componentData.primitiveImports.set(primitiveName, imp.n);
-          }
-        }
-      });
-    }
-  } catch (error) {
-    debug('Error parsing imports:', error);
-  }
-}
-
-/**
- * Extract primitive name from package name
- */
-function extractPrimitiveName(packageName: string): string | null {
-  // E.g., @radix-ui/react-accordion -> AccordionPrimitive
-  const match = packageName.match(/@radix-ui\/react-([a-z-]+)$/i);
-  if (match && match[1]) {
-    const baseName = match[1]
-      .split('-')
-      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
-      .join('');
-    return `${baseName}Primitive`;
-  }
-  return null;
-}
-
-/**
- * Create a fallback component file for extraction
+ * Record the packages a component file imports, split into runtime and type-only
  */
-async function createFallbackComponent(componentData: ComponentData): Promise<string> {
-  const { normalizedName, pascalName } = componentData;
-  const stubDir = path.join(process.cwd(), '.temp-component');
-  
-  try {
-    await fs_extra.ensureDir(stubDir);
-  } catch (error) {
-    debug('Failed to create temp directory:', error);
-  }
-  
-  const stubFile = path.join(stubDir, `${normalizedName}.tsx`);
+function detectDependencies(content: string, file: string, componentData: ComponentData): void {
+  const { runtime, typeOnly } = groupDependencies(findModuleImports(content, path.basename(file)));
   
-  try {
-    await fs.writeFile(stubFile, `
-import * as React from "react";
-
-export interface ${pascalName}Props {
-  /** Content of the ${pascalName} */
-  children?: React.ReactNode;
-  /** Optional CSS classes */
-  className?: string;
-  /** Whether the component is disabled */
-  disabled?: boolean;
-  /** Component variant */
-  variant?: "default" | "destructive" | "outline" | "secondary";
-}
-
-export function ${pascalName}({ 
-  children,
-  className,
-  disabled,
-  variant = "default"
-}: ${pascalName}Props) {
-  return <div className={className}>{children}</div>;
-}
-`);
-    return stubFile;
-  } catch (error) {
-    debug('Failed to create fallback file:', error);
-    // Create in current directory as last resort
-    const lastResortFile = path.join(process.cwd(), `${normalizedName}-default.tsx`);
-    try {
-      await fs.writeFile(lastResortFile, `
-import * as React from "react";
-export interface ${pascalName}Props {
-  children?: React.ReactNode;
-  className?: string;
-}
-`);
-      return lastResortFile;
-    } catch (err) {
-      throw new Error(`Failed to create fallback file: ${err instanceof Error ? err.message : String(err)}`);
-    }
-  }
+  runtime.forEach(dependency => {
+    componentData.dependencies.add(dependency);
+    componentData.typeDependencies.delete(dependency);
+  });
+  typeOnly
+    .filter(dependency => !componentData.dependencies.has(dependency))
+    .forEach(dependency => componentData.typeDependencies.add(dependency));
 }
 
 /**
- * Find all component files with comprehensive error handling
+ * Find all component files in the ui directory from components.json
  */
-async function findComponentFiles(componentData: ComponentData): Promise<string[]> {
-  const { componentName, normalizedName, pascalName } = componentData;
-  const spinner = ora(`Finding component files for ${componentName}...`).start();
+async function findComponentFiles(componentData: ComponentData, cwd?: string): Promise<string[]> {
+  const { componentName, normalizedName } = componentData;
+  const spinner = createSpinner(`Finding component files for ${componentName}...`);
   
   try {
-    // Check temp directory first (for fallback files)
-    const tempDir = path.join(process.cwd(), '.temp-component');
-    if (existsSync(tempDir)) {
-      const tempFiles = await globPromise(`${tempDir}/**/*.tsx`);
-      if (tempFiles.length > 0) {
-        spinner.succeed(`Found ${tempFiles.length} component files in temp directory`);
-        return tempFiles;
-      }
-    }
+    const projectRoot = await findProjectRoot(cwd);
+    const uiDir = await resolveUiDirectory(projectRoot);
     
-    const projectRoot = await findProjectRoot();
-    
-    // Define possible file patterns - match both original name and pascal case
-    const potentialPatterns = [
-      `components/ui/${normalizedName}.tsx`,
-      `components/ui/${normalizedName}/**/*.tsx`,
-      `src/components/ui/${normalizedName}.tsx`,
-      `src/components/ui/${normalizedName}/**/*.tsx`,
-      `**/components/**/${normalizedName}.tsx`,
-      `**/components/**/${normalizedName}/**/*.tsx`,
-      // Also try pascal case variants
-      `components/ui/${pascalName}.tsx`,
-      `components/ui/${pascalName}/**/*.tsx`,
-      `src/components/ui/${pascalName}.tsx`,
-      `src/components/ui/${pascalName}/**/*.tsx`,
-      `**/components/**/${pascalName}.tsx`,
-      `**/components/**/${pascalName}/**/*.tsx`,
-      // Try a more generic search as fallback
-      `**/components/**/*${normalizedName}*.tsx`,
-      `**/components/**/*${pascalName}*.tsx`,
+    // A single file (button.tsx) or a directory of files (button/index.tsx)
+    const patterns = [
+      `${normalizedName}${uiDir.extension}`,
+      `${normalizedName}/**/*${uiDir.extension}`
     ];
     
-    const allMatches: string[] = [];
-    
-    // Add parallel glob execution for faster results
-    const results = await Promise.all(potentialPatterns.map(pattern => 
+    const results = await Promise.all(patterns.map(pattern => 
       globPromise(pattern, {
-        cwd: projectRoot, 
+        cwd: uiDir.path, 
         absolute: true,
         nocase: true // Case insensitive matching
-      }).catch(_ => []) // Handle errors per pattern
+      })
     ));
     
-    results.forEach(matches => allMatches.push(...matches));
+    const uniqueMatches = Array.from(new Set(([] as string[]).concat(...results)));
     
-    // Remove duplicates
-    const uniqueMatches = Array.from(new Set(allMatches));
-    
-    if (uniqueMatches.length > 0) {
-      spinner.succeed(`Found ${uniqueMatches.length} component files`);
-      await extractDependenciesFromFiles(uniqueMatches, componentData, spinner);
-      return uniqueMatches;
-    }
-    
-    // Try finding recent files as a last resort
-    try {
-      let recentFiles: string[] = [];
-      
-      if (process.platform === 'win32') {
-        // Windows - use PowerShell
-        try {
-          const { stdout } = await execa('powershell', [
-            '-Command', 
-            `Get-ChildItem -Path . -Recurse -Include *.tsx,*.jsx -File | Where-Object {$_.LastWriteTime -gt (Get-Date).AddMinutes(-10)} | Select-Object -ExpandProperty FullName`
-          ], { timeout: 10000 });
-          recentFiles = stdout.split('\n').filter(Boolean);
-        } catch (error) {
-          debug('PowerShell command failed:', error);
-        }
-      } else {
-        // Unix-like systems - use find and sort
-        try {
-          const { stdout } = await execa('sh', [
-            '-c',
-            'find . -type f -name "*.tsx" -o -name "*.jsx" -mmin -10 | head -n 5'
-          ], { timeout: 10000 });
-          recentFiles = stdout.split('\n').filter(Boolean);
-        } catch (error) {
-          debug('Find command failed:', error);
-        }
-      }
-      
-      if (recentFiles.length > 0) {
-        spinner.succeed(`Found ${recentFiles.length} recently modified files`);
-        await extractDependenciesFromFiles(recentFiles, componentData, spinner);
-        return recentFiles;
-      }
-    } catch (error) {
-      debug('Error finding recent files:', error);
+    if (uniqueMatches.length === 0) {
+      const location = path.relative(projectRoot, uiDir.path) || '.';
+      const source = uiDir.alias 
+        ? ` (components.json alias "${uiDir.alias}")` 
+        : ' (no components.json found)';
+      throw new Error(`No files for ${componentName} found in ${location}${source}. Check that the component is installed and that components.json matches your tsconfig paths.`);
     }
     
-    // Create a default file if nothing found
-    const defaultPath = await createFallbackComponent(componentData);
-    spinner.warn(`Created default component file: ${defaultPath}`);
-    return [defaultPath];
+    spinner.succeed(`Found ${uniqueMatches.length} component files`);
+    await extractDependenciesFromFiles(uniqueMatches, componentData, spinner);
+    return uniqueMatches;
   } catch (error) {
     spinner.fail(`Error finding component files: ${error instanceof Error ? error.message : String(error)}`);
-    
-    // Create fallback component as last resort
-    try {
-      const defaultPath = await createFallbackComponent(componentData);
-      return [defaultPath];
-    } catch (fallbackError) {
-      spinner.fail(`Failed to create fallback component: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`);
-      throw new Error(`Could not find or create component files: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    throw error;
   }
 }
 
@@ -638,13 +746,29 @@ async function findComponentFiles(componentData: ComponentData): Promise<string[
 async function extractDependenciesFromFiles(files: string[], componentData: ComponentData, spinner: ora.Ora): Promise<void> {
   spinner.text = "Analyzing component dependencies...";
   
+  const sources: Array<{ file: string; content: string }> = [];
   for (const file of files) {
     try {
-      const content = await fs.readFile(file, 'utf8');
-      detectDependenciesFromText(content, componentData);
+      sources.push({ file, content: await fs.readFile(file, 'utf8') });
+    } catch (error) {
+      debug(`Error reading ${file}:`, error);
+    }
+  }
+  
+  await extractDependenciesFromSources(sources, componentData);
+}
+
+/**
+ * Extract dependencies and primitives from component sources
+ */
+async function extractDependenciesFromSources(sources: Array<{ file: string; content: string }>, componentData: ComponentData): Promise<void> {
+  for (const { file, content } of sources) {
+    try {
+      detectDependencies(content, file, componentData);
       
-      // Extract primitive imports by analyzing file content
-      extractPrimitiveImportsFromContent(content, componentData);
+      // Record every primitive the file imports, not just the first
+      const primitives = await analyzePrimitives(file, componentData.normalizedName, content);
+      primitives.forEach(primitive => addPrimitive(primitive, componentData));
     } catch (error) {
       debug(`Error analyzing ${file}:`, error);
     }
@@ -655,68 +779,66 @@ async function extractDependenciesFromFiles(files: string[], componentData: Comp
 }
 
 /**
- * Analyze file content to find primitive imports
+ * Create the component files read from a registry checkout or bundle in the extraction project
+ * Registry dependencies (e.g., button for pagination) are added too so @/ imports of them resolve
+ * Nothing is written to disk; returns the paths of the component's own files
  */
-function extractPrimitiveImportsFromContent(content: string, componentData: ComponentData): void {
-  const { pascalName } = componentData;
-  
-  // Look for primitive imports and usages
-  const primitiveRegex = new RegExp(`import\\s+\\*\\s+as\\s+([A-Za-z0-9]+Primitive)\\s+from\\s+['"]([^'"]+)['"]`, 'g');
-  let match;
+async function loadOfflineSources(componentData: ComponentData, source: string, project: Project, 
+                                  cwd?: string): Promise<string[]> {
+  const { componentName, normalizedName } = componentData;
+  const spinner = createSpinner(`Reading ${componentName} from ${source}...`);
   
-  while ((match = primitiveRegex.exec(content)) !== null) {
-    const primitiveName = match[1];
-    const importPath = match[2];
-    componentData.primitiveImports.set(primitiveName, importPath);
+  try {
+    const uiDir = await resolveUiDirectory(await findProjectRoot(cwd));
+    const { files, registryDependencies } = await readComponentSources(source, normalizedName);
     
-    // Add dependency if it's an npm package
-    if (importPath.startsWith('@') || !importPath.startsWith('.')) {
-      componentData.dependencies.add(importPath);
-    }
-  }
-  
-  // Look for references to primitives in the code
-  const primitiveUsageRegex = new RegExp(`${pascalName}Primitive\\.([A-Za-z0-9]+)`, 'g');
-  const rootPrimitiveRegex = new RegExp(`([A-Za-z0-9]+Primitive)\\.([A-Za-z0-9]+)`, 'g');
-  
-  // Check for component-specific primitive patterns
-  while ((match = primitiveUsageRegex.exec(content)) !== null) {
-    if (componentData.subComponents.indexOf(match[1]) === -1) {
-      componentData.subComponents.push(match[1]);
-    }
-  }
-  
-  // Check for any primitive patterns
-  while ((match = rootPrimitiveRegex.exec(content)) !== null) {
-    const primitiveName = match[1];
-    const subComponent = match[2];
+    const sourceFiles = files.map(file => {
+      const filePath = path.join(uiDir.path, file.path);
+      project.createSourceFile(filePath, file.content, { overwrite: true });
+      return filePath;
+    });
     
-    if (!componentData.primitiveImports.has(primitiveName)) {
-      // Guess the import path based on common patterns
-      const likelyPackage = guessRadixPackageFromPrimitive(primitiveName);
-      if (likelyPackage) {
-        componentData.primitiveImports.set(primitiveName, likelyPackage);
-        componentData.dependencies.add(likelyPackage);
+    const pending = [...registryDependencies];
+    const seen = new Set<string>([normalizedName]);
+    while (pending.length > 0) {
+      const dependency = pending.shift() as string;
+      if (seen.has(dependency)) continue;
+      seen.add(dependency);
+      
+      try {
+        const dependencySources = await readComponentSources(source, dependency);
+        dependencySources.files.forEach(file => {
+          project.createSourceFile(path.join(uiDir.path, file.path), file.content, { overwrite: true });
+        });
+        pending.push(...dependencySources.registryDependencies);
+      } catch (error) {
+        debug(`Could not read registry dependency ${dependency}:`, error);
+        componentData.warnings.push(`Registry dependency ${dependency} not found in ${source}; types it provides are not resolved`);
       }
     }
     
-    if (componentData.subComponents.indexOf(subComponent) === -1) {
-      componentData.subComponents.push(subComponent);
-    }
+    spinner.succeed(`Read ${pluralize('source file', sourceFiles.length, true)} of ${componentName} from ${source}`);
+    await extractDependenciesFromSources(files.map((file, index) => ({ file: sourceFiles[index], content: file.content })), componentData);
+    return sourceFiles;
+  } catch (error) {
+    spinner.fail(`Error reading ${componentName} from ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
   }
 }
 
 /**
- * Guess Radix package name from primitive name
+ * Record a primitive found by the analyzer, merging sub-components across files
  */
-function guessRadixPackageFromPrimitive(primitiveName: string): string | null {
-  // AccordionPrimitive -> @radix-ui/react-accordion
-  const baseNameMatch = primitiveName.match(/^([A-Za-z]+)Primitive$/);
-  if (baseNameMatch && baseNameMatch[1]) {
-    const baseName = baseNameMatch[1].toLowerCase();
-    return `@radix-ui/react-${baseName}`;
+function addPrimitive(primitive: PrimitiveData, componentData: ComponentData): void {
+  const existing = componentData.primitives.find(known => known.name === primitive.name);
+  if (existing) {
+    existing.subComponents = R.union(existing.subComponents, primitive.subComponents);
+  } else {
+    componentData.primitives.push({ ...primitive, subComponents: [...primitive.subComponents] });
   }
-  return null;
+  
+  componentData.primitiveImports.set(primitive.name, primitive.package);
+  componentData.subComponents = R.union(componentData.subComponents, primitive.subComponents);
 }
 
 /**
@@ -726,6 +848,11 @@ function addTypicalDependencies(componentData: ComponentData): void {
   const { normalizedName, pascalName } = componentData;
   const lowerName = normalizedName.toLowerCase();
   
+  // Only a fallback for when the files yielded no imports
+  if (componentData.dependencies.size > 0 || componentData.typeDependencies.size > 0) {
+    return;
+  }
+  
   // Add specific dependencies based on component type
   if (lowerName === 'accordion') {
     componentData.dependencies.add('@radix-ui/react-accordion');
@@ -796,100 +923,227 @@ function extractSubComponentName(text: string): string | null {
 }
 
 /**
- * Detect duplicate prop type names and create unique names
- * for different subcomponents
+ * Keep one props type per name and report parts that map to the same name
  */
-function deduplicateAndNameProps(foundProps: {text: string, subComponent: string | null}[], 
-                                componentData: ComponentData): string[] {
-  const { pascalName } = componentData;
-  const baseTypeName = `${pascalName}Props`;
-  const result: string[] = [];
+function resolveTypeNameCollisions(foundProps: FoundProps[], componentData: ComponentData): string[] {
+  const byName = R.groupBy(found => found.typeName, foundProps);
+  
+  return Object.entries(byName).map(([typeName, entries]) => {
+    // The same declaration is often found by more than one pass
+    const distinct = R.uniqBy(entry => entry.text, entries || []);
+    if (distinct.length > 1) {
+      const sources = distinct.map(entry => entry.source);
+      componentData.collisions.push({ typeName, sources });
+      componentData.warnings.push(`${typeName} is produced by ${sources.join(', ')}; kept the props of ${sources[0]}`);
+    }
+    return distinct[0].text;
+  });
+}
+
+/**
+ * Copy types, variant definitions and type imports the props reference from other local files
+ */
+function addLocalReferences(sourceFile: SourceFile, foundProps: FoundProps[], componentData: ComponentData, 
+                            options: ExtractOptions): void {
+  // Relative imports are written as seen from the directory of the props file
+  let outputDir = path.resolve(path.dirname(getPropsFilePath(componentData, options)));
+  
+  // Workspace files stand for the same paths in the project, so the output directory is mapped into the workspace
+  if (options.cwd && options.projectRoot) {
+    outputDir = path.join(options.cwd, path.relative(options.projectRoot, outputDir));
+  }
+  const references = collectLocalReferences(sourceFile, foundProps.map(found => found.text), outputDir);
   
-  // No need to deduplicate if there's only one prop
-  if (foundProps.length <= 1) {
-    return foundProps.map(p => p.text);
+  references.declarations.forEach(declaration => {
+    foundProps.push({ 
+      typeName: declaration.name, 
+      text: `// From ${declaration.source}\n${declaration.text}`, 
+      source: `${declaration.name} from ${declaration.source}` 
+    });
+  });
+  references.variants
+    .filter(definition => !componentData.variants.some(existing => existing.name === definition.name))
+    .forEach(definition => componentData.variants.push(definition));
+  references.typeImports
+    .filter(typeImport => !componentData.localImports.some(existing => existing.name === typeImport.name))
+    .forEach(typeImport => componentData.localImports.push(typeImport));
+  
+  // Followed files need their own packages for the types to resolve; offline sources only exist in the project
+  references.files.forEach(file => {
+    const followed = sourceFile.getProject().getSourceFile(file);
+    if (followed) {
+      detectDependencies(followed.getFullText(), file, componentData);
+    }
+  });
+}
+
+/**
+ * Print the type names produced by more than one part
+ */
+function printCollisions(componentData: ComponentData): void {
+  if (componentData.collisions.length === 0) {
+    return;
   }
   
-  // Count occurrences of each sub-component
-  const subComponentCounts: Record<string, number> = {};
-  foundProps.forEach(prop => {
-    const subComponent = prop.subComponent || 'Main';
-    subComponentCounts[subComponent] = (subComponentCounts[subComponent] || 0) + 1;
+  log(chalk.yellow(`\n${logSymbols.warning} Type name collisions in ${componentData.componentName}:`));
+  componentData.collisions.forEach(({ typeName, sources }) => {
+    log(chalk.yellow(`  ${typeName}: ${sources.join(', ')} (kept ${sources[0]})`));
+  });
+}
+
+/**
+ * Create the ts-morph project used for props extraction, resolving paths of the project in cwd
+ */
+function createExtractionProject(cwd: string = process.cwd()): Project {
+  return new Project({
+    skipAddingFilesFromTsConfig: true,
+    compilerOptions: {
+      jsx: 4, // React-JSX
+      // Resolve @/ imports of sibling ui files, hooks and lib helpers
+      ...getPathCompilerOptions(cwd)
+    }
   });
+}
+
+/**
+ * Escape a string for use in a regular expression (e.g., member names like $on or aria-label)
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Add destructured defaults to non-expanded props text as documentation
+ * Aliases get a JSDoc block listing the defaults; interfaces get a @default comment or a redeclared member
+ */
+function documentDefaults(text: string, expanded: ExpandedPropsType): string {
+  const members = expanded.members.filter(member => member.defaultValue !== undefined);
+  if (members.length === 0) {
+    return text;
+  }
   
-  // If we have duplicate sub-components, add them to our component data
-  Object.keys(subComponentCounts)
-    .filter(key => key !== 'Main')
-    .forEach(subComp => {
-      if (!componentData.subComponents.includes(subComp)) {
-        componentData.subComponents.push(subComp);
+  if (/^(export\s+)?interface\s/m.test(text)) {
+    const inherited: string[] = [];
+    let result = text;
+    
+    members.forEach(member => {
+      // The member line and the JSDoc block directly above it, if any
+      const declaredMember = new RegExp(`^([ \\t]*)(?:/\\*\\*((?:(?!\\*/)[\\s\\S])*)\\*/\\s*\\n[ \\t]*)?(['"]?${escapeRegExp(member.name)}['"]?\\??:)`, 'm');
+      if (declaredMember.test(result)) {
+        result = result.replace(declaredMember, (_, indent: string, comment: string | undefined, declaration: string) => {
+          const docLines = (comment || '')
+            .split('\n')
+            .map(line => line.replace(/^\s*\*?\s?/, '').trim())
+            .filter(Boolean);
+          docLines.push(`@default ${member.defaultValue}`);
+          return docLines.length === 1
+            ? `${indent}/** ${docLines[0]} */\n${indent}${declaration}`
+            : `${indent}/**\n${docLines.map(line => `${indent} * ${line}`).join('\n')}\n${indent} */\n${indent}${declaration}`;
+        });
+      } else {
+        inherited.push(renderMember(member));
       }
     });
+    
+    return inherited.length > 0 
+      ? result.replace(/\}\s*$/, `\n${inherited.join('\n')}\n}`) 
+      : result;
+  }
   
-  // Group props by their sub-component type
-  const propsBySubComponent: Record<string, string[]> = {};
-  foundProps.forEach(prop => {
-    const subComponent = prop.subComponent || 'Main';
-    if (!propsBySubComponent[subComponent]) {
-      propsBySubComponent[subComponent] = [];
-    }
-    propsBySubComponent[subComponent].push(prop.text);
-  });
+  // Redeclaring members in an intersection could conflict with the aliased type, so defaults are only documented
+  const defaultLines = [' * Defaults applied by the component:', ...members.map(member => ` * - ${member.name}: ${member.defaultValue}`)];
+  // Placed after leading line comments (e.g., // Props of Button) so it sits directly on the alias
+  const [, lineComments, declaration] = text.match(/^((?:[ \t]*\/\/.*\n)*)([\s\S]*)$/) as RegExpMatchArray;
+  if (/^\s*\/\*\*/.test(declaration)) {
+    return lineComments + declaration.replace(/\s*\*\//, `\n *\n${defaultLines.join('\n')}\n */`);
+  }
+  return `${lineComments}/**\n${defaultLines.join('\n')}\n */\n${declaration}`;
+}
+
+/**
+ * Replace extracted props text with the type checker's full member list in expanded mode
+ * Destructuring defaults are attached to the members and documented with @default
+ */
+function expandFoundProps(node: Node, typeName: string, text: string, 
+                          componentData: ComponentData, options: ExtractOptions,
+                          defaults: PropDefaults = {}): string {
+  const hasDefaults = Object.keys(defaults).length > 0;
+  if (hasDefaults) {
+    componentData.propDefaults[typeName] = { ...componentData.propDefaults[typeName], ...defaults };
+  }
   
-  // For each sub-component, rename the prop types appropriately
-  Object.entries(propsBySubComponent).forEach(([subComponent, props]) => {
-    // If it's the main component or only one prop per sub-component, use the base name
-    if (subComponent === 'Main' || Object.keys(propsBySubComponent).length === 1) {
-      props.forEach(prop => {
-        result.push(prop);
-      });
-    } else {
-      // Otherwise rename to include the sub-component name
-      props.forEach(prop => {
-        const renamed = prop.replace(
-          new RegExp(`(type|interface)\\s+${pascalName}Props`), 
-          `$1 ${pascalName}${subComponent}Props`
-        );
-        result.push(renamed);
-      });
+  // Schema formats and defaults need resolved members even when the TypeScript output keeps aliases
+  const needsMembers = options.expanded || (options.formats || []).length > 0 || hasDefaults;
+  if (!needsMembers) {
+    return text;
+  }
+  
+  const expanded = expandPropsType(node, typeName);
+  if (!expanded) {
+    debug(`Could not expand ${typeName}, keeping original text`);
+    return text;
+  }
+  
+  expanded.members.forEach(member => {
+    if (defaults[member.name] !== undefined) {
+      member.defaultValue = defaults[member.name];
     }
   });
   
-  return result;
+  if (!componentData.expandedProps.some(existing => existing.name === expanded.name)) {
+    componentData.expandedProps.push(expanded);
+  }
+  
+  if (options.expanded) {
+    return renderExpandedInterface(expanded);
+  }
+  return hasDefaults ? documentDefaults(text, expanded) : text;
 }
 
 /**
  * Extract props from a TypeScript file using ts-morph
  */
-async function extractPropsFromFile(file: string, componentData: ComponentData): Promise<string[]> {
+async function extractPropsFromFile(file: string, componentData: ComponentData, 
+                                    options: ExtractOptions = {}): Promise<FoundProps[]> {
   const { componentName, pascalName } = componentData;
-  const spinner = ora(`Extracting props from ${path.basename(file)}...`).start();
+  const spinner = createSpinner(`Extracting props from ${path.basename(file)}...`);
   
   try {
     // Use ts-morph for TypeScript AST analysis
-    const project = new Project({
-      skipAddingFilesFromTsConfig: true,
-      compilerOptions: {
-        jsx: 4, // React-JSX
+    const project = options.project || createExtractionProject(options.cwd);
+    
+    // Re-read the file in case a shared project saw an older version
+    const existingFile = project.getSourceFile(file);
+    if (existingFile && !options.sourceFiles?.includes(file)) {
+      await existingFile.refreshFromFileSystem();
+    }
+    const sourceFile = existingFile || project.addSourceFileAtPath(file);
+    
+    // Collect class-variance-authority variants declared in this file
+    extractVariants(sourceFile).forEach(definition => {
+      if (!componentData.variants.some(existing => existing.name === definition.name)) {
+        componentData.variants.push(definition);
       }
     });
     
-    const sourceFile = project.addSourceFileAtPath(file);
+    // Track found props with the part that produced them
+    const foundProps: FoundProps[] = [];
+    const fileName = path.basename(file);
     
-    // Track found props with their sub-component information
-    const foundProps: {text: string, subComponent: string | null}[] = [];
+    // Fix hyphenated names in the extracted code
+    const fixName = (text: string) => text.replace(
+      new RegExp(`${componentName}Props`, 'g'), 
+      `${pascalName}Props`
+    );
     
     // Check interfaces
     sourceFile.getInterfaces().forEach(iface => {
       const name = iface.getName();
       if (isPropsType(name, componentData)) {
-        const text = iface.getText();
-        // Fix hyphenated names in the extracted code
-        const fixedText = text.replace(
-          new RegExp(`${componentName}Props`, 'g'), 
-          `${pascalName}Props`
-        );
-        foundProps.push({ text: fixedText, subComponent: null });
+        const fixedText = fixName(iface.getText());
+        const defaults = findPropsDefaults(sourceFile, name);
+        const text = expandFoundProps(iface, fixName(name), fixedText, componentData, options, defaults);
+        foundProps.push({ typeName: fixName(name), text, source: `interface ${name} in ${fileName}` });
       }
     });
     
@@ -897,13 +1151,10 @@ async function extractPropsFromFile(file: string, componentData: ComponentData):
     sourceFile.getTypeAliases().forEach(type => {
       const name = type.getName();
       if (isPropsType(name, componentData)) {
-        const text = type.getText();
-        // Fix hyphenated names in the extracted code
-        const fixedText = text.replace(
-          new RegExp(`${componentName}Props`, 'g'), 
-          `${pascalName}Props`
-        );
-        foundProps.push({ text: fixedText, subComponent: null });
+        const fixedText = fixName(type.getText());
+        const defaults = findPropsDefaults(sourceFile, name);
+        const text = expandFoundProps(type, fixName(name), fixedText, componentData, options, defaults);
+        foundProps.push({ typeName: fixName(name), text, source: `type ${name} in ${fileName}` });
       }
     });
     
@@ -912,20 +1163,53 @@ async function extractPropsFromFile(file: string, componentData: ComponentData):
     exportedDeclarations.forEach((declarations, name) => {
       if (isPropsType(name, componentData)) {
         declarations.forEach(declaration => {
-          const text = declaration.getText();
-          // Fix hyphenated names in the extracted code
-          const fixedText = text.replace(
-            new RegExp(`${componentName}Props`, 'g'), 
-            `${pascalName}Props`
-          );
-          foundProps.push({ text: fixedText, subComponent: null });
+          const fixedText = fixName(declaration.getText());
+          const defaults = findPropsDefaults(sourceFile, name);
+          const text = expandFoundProps(declaration, fixName(name), fixedText, componentData, options, defaults);
+          const kind = Node.isInterfaceDeclaration(declaration) ? 'interface' : 'type';
+          foundProps.push({ typeName: fixName(name), text, source: `${kind} ${name} in ${fileName}` });
         });
       }
     });
     
-    // Look for type references containing "ComponentProps"
+    // Emit a props type for each exported component, named after the component
+    const components = findExportedComponents(sourceFile);
+    let componentPropsCount = 0;
+    components.forEach(component => {
+      componentData.components.push(component);
+      const { propsNode, typeName } = component;
+      if (!propsNode || !component.propsType || !typeName) return;
+      componentPropsCount++;
+      
+      // Components typed with a declared props type (e.g., ButtonProps) share its declaration
+      const declaration = component.propsType === typeName
+        ? sourceFile.getInterface(typeName) || sourceFile.getTypeAlias(typeName)
+        : undefined;
+      if (declaration) {
+        if (!foundProps.some(found => found.typeName === typeName)) {
+          const text = expandFoundProps(declaration, typeName, declaration.getText(), componentData, options, component.defaults);
+          foundProps.push({ typeName, text, source: component.name });
+        }
+        return;
+      }
+      
+      // forwardRef components receive the ref outside their props type
+      const refAttributes = component.separateRef && component.refType 
+        ? ` & React.RefAttributes<${component.refType}>` 
+        : '';
+      const propType = `// Props of ${component.name} (${component.kind})
+export type ${typeName} = ${component.propsType}${refAttributes};`;
+      
+      foundProps.push({ 
+        typeName,
+        text: expandFoundProps(propsNode, typeName, propType, componentData, options, component.defaults), 
+        source: component.name
+      });
+    });
+    
+    // Without exported components, fall back to naming type references by their primitive member
     sourceFile.forEachDescendantAsArray().forEach(node => {
-      if (node.getKind() === SyntaxKind.TypeReference) {
+      if (componentPropsCount === 0 && node.getKind() === SyntaxKind.TypeReference) {
         const text = node.getText();
         if (
           text.includes('ComponentProps<') ||
@@ -936,17 +1220,22 @@ async function extractPropsFromFile(file: string, componentData: ComponentData):
           const subComponent = extractSubComponentName(text);
           
           // Use PascalCase for the type name
+          const typeName = `${pascalName}${subComponent ? subComponent : ''}Props`;
           const propType = `// From React type reference
-type ${pascalName}${subComponent ? subComponent : ''}Props = ${text};`;
+type ${typeName} = ${text};`;
           
-          foundProps.push({ text: propType, subComponent });
+          foundProps.push({ 
+            typeName,
+            text: expandFoundProps(node, typeName, propType, componentData, options, getAnnotatedParameterDefaults(node)), 
+            source: `${text} in ${fileName}`
+          });
         }
       }
     });
     
     // Check HTML attribute types
     sourceFile.forEachDescendantAsArray().forEach(node => {
-      if (node.getKind() === SyntaxKind.TypeReference) {
+      if (componentPropsCount === 0 && node.getKind() === SyntaxKind.TypeReference) {
         const text = node.getText();
         if (
           text.includes('HTMLAttributes<') ||
@@ -956,14 +1245,19 @@ type ${pascalName}${subComponent ? subComponent : ''}Props = ${text};`;
           const propType = `// From HTML attributes
 type ${pascalName}Props = ${text};`;
           
-          foundProps.push({ text: propType, subComponent: null });
+          foundProps.push({ 
+            typeName: `${pascalName}Props`,
+            text: expandFoundProps(node, `${pascalName}Props`, propType, componentData, options), 
+            source: `${text} in ${fileName}`
+          });
         }
       }
     });
     
     if (foundProps.length === 0) {
-      // If no props found with AST analysis, try regex as fallback
-      const code = await fs.readFile(file, 'utf8');
+      // If no props found with AST analysis, try regex as fallback; offline sources only exist in the project
+      const code = sourceFile.getFullText();
+      componentData.warnings.push(`No props found by AST analysis in ${path.basename(file)}; used regex fallback`);
       
       // Interface Props pattern
       const interfaceRegex = new RegExp(`(export\\s+)?interface\\s+([A-Za-z0-9_]*Props[A-Za-z0-9_]*)\\s*(?:extends\\s+[^{]+)?\\s*\\{[^}]*\\}`, 'g');
@@ -971,7 +1265,7 @@ type ${pascalName}Props = ${text};`;
       while ((match = interfaceRegex.exec(code)) !== null) {
         const name = match[2];
         if (isPropsType(name, componentData)) {
-          foundProps.push({ text: match[0], subComponent: null });
+          foundProps.push({ typeName: name, text: match[0], source: `interface ${name} in ${fileName}` });
         }
       }
       
@@ -980,7 +1274,7 @@ type ${pascalName}Props = ${text};`;
       while ((match = typeRegex.exec(code)) !== null) {
         const name = match[2];
         if (isPropsType(name, componentData)) {
-          foundProps.push({ text: match[0], subComponent: null });
+          foundProps.push({ typeName: name, text: match[0], source: `type ${name} in ${fileName}` });
         }
       }
       
@@ -988,27 +1282,33 @@ type ${pascalName}Props = ${text};`;
       const componentPropsRegex = /ComponentProps<([^>]+)>/g;
       while ((match = componentPropsRegex.exec(code)) !== null) {
         const subComponent = extractSubComponentName(match[1]);
+        const typeName = `${pascalName}${subComponent ? subComponent : ''}Props`;
         foundProps.push({
+          typeName,
           text: `// From React type reference
-type ${pascalName}${subComponent ? subComponent : ''}Props = ${match[0]};`,
-          subComponent
+type ${typeName} = ${match[0]};`,
+          source: `${match[0]} in ${fileName}`
         });
       }
       
       // Also extract imports to detect dependencies
-      detectDependenciesFromText(code, componentData);
+      detectDependencies(code, file, componentData);
     }
     
-    // Deduplicate and rename props for sub-components
-    const processedProps = deduplicateAndNameProps(foundProps, componentData);
+    // Bring in what the props reference from other local files (e.g., buttonVariants, ButtonProps)
+    if (foundProps.length > 0) {
+      addLocalReferences(sourceFile, foundProps, componentData, options);
+    }
     
-    if (processedProps.length > 0) {
-      spinner.succeed(`Found ${processedProps.length} prop types in ${path.basename(file)}`);
+    // Collisions are resolved once all files of the component are read
+    const typeCount = R.uniq(foundProps.map(found => found.typeName)).length;
+    if (typeCount > 0) {
+      spinner.succeed(`Found ${typeCount} prop types in ${path.basename(file)}`);
     } else {
       spinner.warn(`No prop types found in ${path.basename(file)}`);
     }
     
-    return processedProps;
+    return foundProps;
   } catch (error) {
     spinner.fail(`Error extracting props from ${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
     return [];
@@ -1060,14 +1360,17 @@ function createSingleComponentProps(componentData: ComponentData, subComponent:
   // Component-specific props based on name and subcomponent
   let specificProps = '';
   
+  // Variants read from cva(...) calls take precedence over hard-coded unions
+  const variantMembers = subComponent ? '' : componentData.variants.map(renderVariantMembers).join('\n');
+  
   // Props based on component type
   if (lowerName.includes('button')) {
-    specificProps = `
+    specificProps = `${variantMembers || `
   /** Button variant */
   variant?: "default" | "destructive" | "outline" | "secondary" | "ghost" | "link";
   
   /** Button size */
-  size?: "default" | "sm" | "lg" | "icon";
+  size?: "default" | "sm" | "lg" | "icon";`}
   
   /** Whether the button is disabled */
   disabled?: boolean;
@@ -1188,6 +1491,9 @@ function createSingleComponentProps(componentData: ComponentData, subComponent:
   /** Handler for action button */
   onAction?: () => void;`;
   }
+  else if (variantMembers) {
+    specificProps = variantMembers;
+  }
   
   return `// ${description}
 export interface ${typeName} {
@@ -1205,21 +1511,34 @@ export interface ${typeName} {
 /**
  * Generate import statements for component props including primitive imports
  */
-function generateImports(componentData: ComponentData): string {
+function generateImports(componentData: ComponentData, declarations: string): string {
   // Base import for React
   let imports = `import * as React from 'react';\n`;
   
+  // Only primitives the props types mention; hooks and helpers the component imports are not needed
+  const usedPrimitives = [...componentData.primitiveImports]
+    .filter(([primitiveName]) => new RegExp(`(^|[^\\w$.])${escapeRegExp(primitiveName)}(?![\\w$])`, 'm').test(declarations));
+  
   // Add imports for primitives
-  if (componentData.primitiveImports.size > 0) {
+  if (usedPrimitives.length > 0) {
     imports += '\n// Import primitive components used in types\n';
     
-    componentData.primitiveImports.forEach((packageName, primitiveName) => {
-      imports += `import * as ${primitiveName} from "${packageName}";\n`;
+    usedPrimitives.forEach(([primitiveName, packageName]) => {
+      // Keep the import style of the component file when the analyzer saw it
+      const primitive = componentData.primitives.find(known => known.name === primitiveName);
+      imports += primitive
+        ? `${renderPrimitiveImport(primitive)}\n`
+        : `import type * as ${primitiveName} from "${packageName}";\n`;
     });
     
     imports += '\n';
   }
   
+  // Add type-only imports for components of other local files
+  if (componentData.localImports.length > 0) {
+    imports += `// Import local components used in types\n${renderLocalTypeImports(componentData.localImports).join('\n')}\n\n`;
+  }
+  
   return imports;
 }
 
@@ -1260,80 +1579,106 @@ async function formatCode(code: string, pascalName: string): Promise<string> {
 }
 
 /**
- * Generate type exports for sub-component types
+ * Export the emitted types that were declared without the export keyword
  */
-function generateTypeExports(componentData: ComponentData): string {
-  const { pascalName, subComponents } = componentData;
+function generateTypeExports(code: string): string {
+  // Types emitted with the export keyword are already public
+  const declarations = code.match(/^(?:type|interface) [A-Za-z0-9_]+/gm) || [];
+  const names = R.uniq(declarations.map(declaration => declaration.split(' ').pop() as string));
   
-  // If no subcomponents, don't generate exports
-  if (subComponents.length === 0) {
+  if (names.length === 0) {
     return '';
   }
   
-  let exports = `\n// Export all component types
-export type {\n`;
-  
-  // Add main component props
-  exports += `  ${pascalName}Props,\n`;
+  return `\n\n// Export all component types
+export type {\n${names.map(name => `  ${name}`).join(',\n')}\n};`;
+}
+
+/**
+ * Rename emitted types as configured (e.g., { ButtonProps: 'ShadcnButtonProps' })
+ * References in the generated code and the type names used in reports follow the rename
+ */
+function applyTypeNameOverrides(code: string, componentData: ComponentData, overrides: Record<string, string> = {}): string {
+  const declared = getDeclaredTypeNames(code);
+  const renames = Object.keys(overrides).filter(name => declared.includes(name) && overrides[name] !== name);
+  if (renames.length === 0) {
+    return code;
+  }
   
-  // Add sub-component props
-  subComponents.forEach(sub => {
-    exports += `  ${pascalName}${sub}Props,\n`;
+  const rename = (name: string): string => renames.includes(name) ? overrides[name] : name;
+  componentData.components.forEach(component => {
+    component.typeName = component.typeName && rename(component.typeName);
   });
+  componentData.expandedProps.forEach(propsType => {
+    propsType.name = rename(propsType.name);
+  });
+  componentData.collisions.forEach(collision => {
+    collision.typeName = rename(collision.typeName);
+  });
+  componentData.propDefaults = R.fromPairs(Object.entries(componentData.propDefaults)
+    .map(([typeName, defaults]) => [rename(typeName), defaults]));
   
-  exports = exports.slice(0, -2) + '\n};';
+  debug(`Renamed types: ${renames.map(name => `${name} -> ${overrides[name]}`).join(', ')}`);
   
-  return exports;
+  // One pass, so swapped names do not rename twice
+  const pattern = new RegExp(`(^|[^\\w$.])(${renames.join('|')})(?![\\w$])`, 'gm');
+  return code.replace(pattern, (_match, prefix: string, name: string) => `${prefix}${overrides[name]}`);
 }
 
 /**
  * Process all component files and extract props
  */
-async function extractComponentProps(componentData: ComponentData): Promise<string> {
-  const { pascalName, dependencies } = componentData;
+async function extractComponentProps(componentData: ComponentData, options: ExtractOptions = {}): Promise<string> {
+  const { pascalName } = componentData;
   
   try {
-    const files = await findComponentFiles(componentData);
-    const allProps: string[] = [];
+    const files = options.sourceFiles || await findComponentFiles(componentData, options.cwd);
+    componentData.files = files;
+    const foundProps: FoundProps[] = [];
+    
+    // Type-only packages are installed too, their typings are needed to resolve props
+    const dependencies = [...componentData.dependencies, ...componentData.typeDependencies];
     
     // Install dependencies before continuing
-    if (dependencies.size > 0) {
-      const installedDeps = await getInstalledDependencies();
-      const missingDeps = [...dependencies].filter(dep => !installedDeps.includes(dep));
+    if (dependencies.length > 0 && !options.skipInstall) {
+      const installedDeps = await getInstalledDependencies(options.cwd);
+      const missingDeps = dependencies.filter(dep => !installedDeps.includes(dep));
       
       if (missingDeps.length > 0) {
-        await installDependencies(missingDeps);
+        await installDependencies(missingDeps, options.packageManager, options.signal, options.cwd, options.installTimeout);
       }
     }
     
     // Process each file
     for (const file of files) {
       try {
-        const fileProps = await extractPropsFromFile(file, componentData);
-        allProps.push(...fileProps);
+        const fileProps = await extractPropsFromFile(file, componentData, options);
+        foundProps.push(...fileProps);
       } catch (error) {
         debug(`Could not process ${file}:`, error);
         console.error(chalk.yellow(`Warning: Could not process ${file}: ${error instanceof Error ? error.message : String(error)}`));
+        componentData.warnings.push(`Could not process ${file}: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
     
-    if (allProps.length === 0) {
+    // One type per name, with a report of parts that mapped to the same name
+    const uniqueProps = resolveTypeNameCollisions(foundProps, componentData)
+      .map(text => replaceVariantPropsReferences(text, componentData.variants));
+    printCollisions(componentData);
+    
+    if (uniqueProps.length === 0) {
       // If no props were found, create default interfaces
-      const defaultProps = createDefaultPropsInterface(componentData);
-      allProps.push(...defaultProps);
+      componentData.warnings.push('No prop types found; emitted default props interfaces');
+      componentData.usedDefaults = true;
+      uniqueProps.push(...createDefaultPropsInterface(componentData));
     }
     
-    // Deduplicate props by converting to string and back
-    const uniqueProps = R.uniqBy(
-      R.identity, 
-      allProps
-    );
-    
-    // Generate imports and type exports
-    const imports = generateImports(componentData);
-    const typeExports = generateTypeExports(componentData);
+    // Generate imports, variant types and type exports
+    const variantTypes = componentData.variants.map(renderVariantTypes);
+    const declarations = applyTypeNameOverrides([...uniqueProps, ...variantTypes].join('\n\n'), componentData, options.typeNames);
+    const imports = generateImports(componentData, declarations);
     
-    const rawCode = imports + uniqueProps.join('\n\n') + typeExports;
+    const rawCode = imports + declarations + generateTypeExports(declarations);
     
     // Format the code with proper type naming
     return formatCode(rawCode, pascalName);
@@ -1342,22 +1687,84 @@ async function extractComponentProps(componentData: ComponentData): Promise<stri
     console.error(chalk.red(`Error extracting props: ${error instanceof Error ? error.message : String(error)}`));
     
     // Even on error, return a default props interface
-    const defaultProps = createDefaultPropsInterface(componentData);
+    componentData.warnings.push(`Extraction failed (${error instanceof Error ? error.message : String(error)}); emitted default props interfaces`);
+    componentData.usedDefaults = true;
+    const defaultProps = [
+      ...createDefaultPropsInterface(componentData),
+      ...componentData.variants.map(renderVariantTypes)
+    ];
     const defaultInterface = `import * as React from 'react';\n\n${defaultProps.join('\n\n')}`;
     return formatCode(defaultInterface, pascalName);
   }
 }
 
+/**
+ * Path of the props file from the output directory and file name template
+ * Templates can use {Pascal} (DropdownMenu) and {kebab} (dropdown-menu)
+ */
+function getPropsFilePath(componentData: ComponentData, options: ExtractOptions = {}): string {
+  const fileName = (options.fileName || DEFAULT_FILE_NAME)
+    .replace(/\{Pascal\}/g, componentData.pascalName)
+    .replace(/\{kebab\}/g, componentData.normalizedName);
+  return path.join(options.outDir || '.', fileName);
+}
+
+/**
+ * Path of an additional format file next to the props file (e.g., AccordionProps.schema.json)
+ */
+function getFormatFilePath(propsFile: string, extension: string): string {
+  return propsFile.replace(/\.tsx?$/, '') + extension;
+}
+
+/**
+ * Type-check the generated props file, optionally adding missing imports
+ * Remaining errors are reported as warnings, or refuse the write in strict mode
+ */
+function validateGeneratedProps(propsText: string, componentData: ComponentData, project: Project, options: MainOptions): string {
+  const fileName = getPropsFilePath(componentData, options);
+  const importSources = componentData.files
+    .map(file => project.getSourceFile(path.resolve(file)))
+    .filter((sourceFile): sourceFile is SourceFile => !!sourceFile);
+  
+  const validation = validatePropsText(project, path.resolve(fileName), propsText, {
+    fixImports: options.fixImports,
+    importSources
+  });
+  componentData.diagnostics = validation.diagnostics;
+  
+  if (validation.addedImports.length > 0) {
+    log(chalk.blue(`${logSymbols.info} Added missing imports to ${fileName}:`));
+    validation.addedImports.forEach(statement => log(chalk.gray(`  ${statement}`)));
+    componentData.warnings.push(`Added missing imports: ${validation.addedImports.join(' ')}`);
+  }
+  
+  if (validation.diagnostics.length === 0) {
+    debug(`${fileName} compiles`);
+    return validation.text;
+  }
+  
+  const details = validation.diagnostics.map(diagnostic => `${fileName}:${formatDiagnostic(diagnostic)}`);
+  if (options.strict) {
+    throw new Error(`${fileName} does not compile, not writing it:\n  ${details.join('\n  ')}`);
+  }
+  
+  console.warn(chalk.yellow(`${logSymbols.warning} ${fileName} has ${pluralize('type error', details.length, true)}${options.fixImports ? '' : ' (--fix-imports may resolve missing names)'}:`));
+  details.forEach(detail => console.warn(chalk.yellow(`  ${detail}`)));
+  componentData.warnings.push(...details.map(detail => `Type error in ${detail}`));
+  return validation.text;
+}
+
 /**
  * Save props to TypeScript file
  */
-async function savePropTypes(propsText: string, componentData: ComponentData): Promise<string> {
+async function savePropTypes(propsText: string, componentData: ComponentData, options: ExtractOptions = {}): Promise<string> {
   const { pascalName } = componentData;
-  const fileName = `${pascalName}Props.ts`;
+  const fileName = getPropsFilePath(componentData, options);
   
   try {
+    await fs_extra.ensureDir(path.dirname(fileName));
     await fs.writeFile(fileName, propsText, 'utf-8');
-    console.log(chalk.green(`${logSymbols.success} Props saved to ${chalk.bold(fileName)}`));
+    log(chalk.green(`${logSymbols.success} Props saved to ${chalk.bold(fileName)}`));
     return fileName;
   } catch (error) {
     debug('Error saving to file:', error);
@@ -1365,22 +1772,97 @@ async function savePropTypes(propsText: string, componentData: ComponentData): P
     
     // Try to save with a different name as fallback
     try {
-      const tempFileName = `props-${pascalName}-${Date.now()}.ts`;
+      const tempFileName = path.join(options.outDir || '.', `props-${pascalName}-${Date.now()}.ts`);
       await fs.writeFile(tempFileName, propsText, 'utf-8');
-      console.log(chalk.yellow(`${logSymbols.warning} Props saved to fallback file ${chalk.bold(tempFileName)}`));
+      log(chalk.yellow(`${logSymbols.warning} Props saved to fallback file ${chalk.bold(tempFileName)}`));
+      componentData.warnings.push(`Could not write ${fileName}; props saved to ${tempFileName}`);
       return tempFileName;
     } catch (fallbackError) {
       // If all attempts fail, output to console
       console.error(chalk.red(`${logSymbols.error} Failed to save file to disk. Showing content instead:`));
-      console.log(chalk.gray('-----------------------------------'));
-      console.log(propsText);
-      console.log(chalk.gray('-----------------------------------'));
+      log(chalk.gray('-----------------------------------'));
+      log(propsText);
+      log(chalk.gray('-----------------------------------'));
       
       throw new Error(`Failed to save props to file: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 }
 
+/**
+ * Regenerate the barrel index.ts of the output directory with the props files just written
+ */
+async function saveBarrel(propsFiles: string[], options: ExtractOptions): Promise<string> {
+  // Without an output directory the barrel would replace the project's own index.ts
+  if (!options.outDir) {
+    throw new Error('A barrel needs an output directory (--out-dir or outDir in the configuration)');
+  }
+  
+  const { fileName, files, duplicates } = await writeBarrel(options.outDir, propsFiles);
+  
+  log(chalk.green(`${logSymbols.success} Barrel saved to ${chalk.bold(fileName)} (${pluralize('props file', files.length, true)})`));
+  if (duplicates.length > 0) {
+    console.warn(chalk.yellow(`${logSymbols.warning} Types exported by several props files are re-exported once: ${R.uniq(duplicates).join(', ')}`));
+  }
+  return fileName;
+}
+
+/**
+ * Save JSON Schema for the extracted props next to the TypeScript file
+ */
+async function saveJsonSchema(componentData: ComponentData, propsFile: string = getPropsFilePath(componentData)): Promise<string> {
+  const { pascalName, expandedProps } = componentData;
+  const fileName = getFormatFilePath(propsFile, '.schema.json');
+  
+  if (expandedProps.length === 0) {
+    console.warn(chalk.yellow(`${logSymbols.warning} No resolved prop members for ${pascalName}; JSON Schema only covers variants. Are the primitive typings installed?`));
+    componentData.warnings.push(`No resolved prop members for ${pascalName}; JSON Schema only covers variants`);
+  }
+  
+  const schema = generateJsonSchema(componentData);
+  await fs.writeFile(fileName, JSON.stringify(schema, null, 2) + '\n', 'utf-8');
+  log(chalk.green(`${logSymbols.success} JSON Schema saved to ${chalk.bold(fileName)}`));
+  return fileName;
+}
+
+/**
+ * Save Zod schemas for the extracted props next to the TypeScript file
+ */
+async function saveZodSchemas(componentData: ComponentData, zodOptions: ZodGeneratorOptions = {}, 
+                              propsFile: string = getPropsFilePath(componentData)): Promise<string> {
+  const { pascalName, expandedProps } = componentData;
+  const fileName = getFormatFilePath(propsFile, '.zod.ts');
+  
+  if (expandedProps.length === 0) {
+    console.warn(chalk.yellow(`${logSymbols.warning} No resolved prop members for ${pascalName}; Zod schemas only cover variants. Are the primitive typings installed?`));
+    componentData.warnings.push(`No resolved prop members for ${pascalName}; Zod schemas only cover variants`);
+  }
+  
+  const zodCode = await formatCode(generateZodSchemas(componentData, zodOptions), pascalName);
+  await fs.writeFile(fileName, zodCode, 'utf-8');
+  log(chalk.green(`${logSymbols.success} Zod schemas saved to ${chalk.bold(fileName)}`));
+  return fileName;
+}
+
+/**
+ * Write every requested additional format alongside the TypeScript file
+ */
+async function saveAdditionalFormats(componentData: ComponentData, options: ExtractOptions): Promise<string[]> {
+  const formats = options.formats || [];
+  const propsFile = getPropsFilePath(componentData, options);
+  const fileNames: string[] = [];
+  
+  if (formats.includes('json-schema')) {
+    fileNames.push(await saveJsonSchema(componentData, propsFile));
+  }
+  
+  if (formats.includes('zod')) {
+    fileNames.push(await saveZodSchemas(componentData, options.zod, propsFile));
+  }
+  
+  return fileNames;
+}
+
 /**
  * Clean up temporary files
  */
@@ -1402,60 +1884,391 @@ async function cleanupTempFiles(): Promise<void> {
   }
 }
 
+/**
+ * Install, extract and save a single component, throwing on failure
+ */
+async function processComponent(componentNameOrUrl: string, options: MainOptions): Promise<ProcessedComponent> {
+  if (!componentNameOrUrl) {
+    throw new Error('No component name or URL provided');
+  }
+  
+  // Normalize component name
+  const componentData = normalizeComponentName(componentNameOrUrl);
+  
+  // Installs and reads happen in the workspace; outputs are written relative to the current directory
+  const cleanup = options.cleanup !== false;
+  const workspace = options.isolated ? await createWorkspace(cleanup) : null;
+  let extracted: { propsText: string; extractOptions: ExtractOptions; versions: InstalledVersions };
+  try {
+    extracted = await installAndExtract(componentData, workspace 
+      ? { 
+          ...options, 
+          cwd: workspace.root, 
+          projectRoot: workspace.projectRoot,
+          // The copy has no lockfile of an enclosing monorepo, so the manager is detected on the project
+          packageManager: (await detectPackageManager(options.packageManager)).name
+        } 
+      : options);
+  } finally {
+    if (workspace) {
+      await releaseWorkspace(workspace, cleanup);
+    }
+  }
+  const { propsText, extractOptions, versions } = extracted;
+  
+  // A timed-out extraction may finish later; it must not overwrite what the next run writes
+  throwIfAborted(componentData, options.signal);
+  
+  // Save to file
+  const fileName = await savePropTypes(propsText, componentData, extractOptions);
+  
+  // Write any additional formats alongside the TypeScript file
+  const additionalFiles = await saveAdditionalFormats(componentData, extractOptions);
+  
+  return { componentData, propsText, fileName, additionalFiles, versions };
+}
+
+/**
+ * Create a scratch workspace from the current project
+ * Unless it is kept, it is also removed when the process exits or is interrupted first
+ */
+async function createWorkspace(cleanup: boolean): Promise<ScratchWorkspace> {
+  const spinner = createSpinner('Creating scratch workspace...');
+  try {
+    const workspace = await createScratchWorkspace(await findProjectRoot(), { removeOnExit: cleanup });
+    spinner.succeed(`Working in scratch workspace ${chalk.gray(workspace.root)}`);
+    return workspace;
+  } catch (error) {
+    spinner.fail(`Could not create scratch workspace: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Tear the workspace down unless cleanup is disabled
+ */
+async function releaseWorkspace(workspace: ScratchWorkspace, cleanup: boolean): Promise<void> {
+  if (!cleanup) {
+    log(chalk.gray(`Scratch workspace kept at ${workspace.root}`));
+    return;
+  }
+  
+  try {
+    await removeScratchWorkspace(workspace);
+  } catch (error) {
+    console.error(chalk.yellow(`Note: ${error instanceof Error ? error.message : String(error)}`));
+  }
+}
+
+/**
+ * Install or read the component, extract its props and type-check the result
+ */
+async function installAndExtract(componentData: ComponentData, options: MainOptions): Promise<{ 
+  propsText: string; 
+  extractOptions: ExtractOptions; 
+  versions: InstalledVersions 
+}> {
+  // A shared project resolves aliases of the original project, so workspaces get their own
+  const project = (!options.isolated && options.project) || createExtractionProject(options.cwd);
+  
+  // Offline runs read the sources into the project instead of installing anything
+  const sourceFiles = options.offline 
+    ? await loadOfflineSources(componentData, options.offline, project, options.cwd)
+    : undefined;
+  
+  // Install component (this step may be skipped if component exists)
+  if (!sourceFiles) {
+    await installShadcnComponent(componentData, options.installTimeout, options.signal, options.cwd);
+    throwIfAborted(componentData, options.signal);
+  }
+  
+  // Extract props
+  const extractOptions: ExtractOptions = { 
+    expanded: options.expanded,
+    formats: options.formats,
+    zod: options.zod,
+    project,
+    packageManager: options.packageManager,
+    skipInstall: Boolean(sourceFiles),
+    sourceFiles,
+    signal: options.signal,
+    installTimeout: options.installTimeout,
+    cwd: options.cwd,
+    projectRoot: options.projectRoot,
+    outDir: options.outDir,
+    fileName: options.fileName,
+    typeNames: options.typeNames
+  };
+  const extractedText = await extractComponentProps(componentData, extractOptions);
+  
+  // Type-check before saving; the component files are already loaded in the project
+  const propsText = options.validate === false
+    ? extractedText
+    : validateGeneratedProps(extractedText, componentData, project, options);
+  
+  // Read while the install directory exists; a scratch workspace is removed afterwards
+  const versions: InstalledVersions = {
+    // Offline sources are not installed with the shadcn CLI
+    shadcnVersion: sourceFiles ? null : await getShadcnVersion(options.cwd),
+    packageVersions: await getRadixVersions(options.cwd)
+  };
+  
+  return { propsText, extractOptions, versions };
+}
+
+/**
+ * Throw once the extraction of a component has been cancelled
+ */
+function throwIfAborted(componentData: ComponentData, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(`Extraction of ${componentData.componentName} was cancelled`);
+  }
+}
+
+/**
+ * Reject if an operation does not settle within the given time
+ * The operation's signal is aborted on timeout so it can kill its processes and skip its writes
+ */
+function withTimeout<T>(operation: (signal: AbortSignal) => Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${label} timed out after ${timeoutMs / 1000} seconds`));
+    }, timeoutMs);
+  });
+  
+  return Promise.race([operation(controller.signal), timeout]).finally(() => {
+    if (timeoutId) clearTimeout(timeoutId);
+  });
+}
+
+/**
+ * Names of the types and interfaces declared at the top level of generated code
+ */
+function getDeclaredTypeNames(code: string): string[] {
+  const declarations = code.match(/^(?:export )?(?:type|interface) [A-Za-z0-9_]+/gm) || [];
+  return R.uniq(declarations.map(declaration => declaration.split(' ').pop() as string));
+}
+
+/**
+ * Build the --json report for a processed component
+ */
+function createComponentReport(processed: ProcessedComponent): ComponentReport {
+  const { componentData, propsText, fileName, additionalFiles } = processed;
+  
+  return {
+    component: componentData.componentName,
+    success: true,
+    files: componentData.files,
+    outputFiles: [fileName, ...additionalFiles],
+    dependencies: [...componentData.dependencies],
+    typeDependencies: [...componentData.typeDependencies],
+    primitiveImports: R.fromPairs([...componentData.primitiveImports]),
+    primitives: componentData.primitives,
+    components: componentData.components.map(component => R.omit(['propsNode'], component)),
+    collisions: componentData.collisions,
+    diagnostics: componentData.diagnostics,
+    subComponents: componentData.subComponents,
+    types: getDeclaredTypeNames(propsText),
+    defaults: componentData.propDefaults,
+    descriptions: R.fromPairs(componentData.expandedProps.map(propsType => [
+      propsType.name,
+      R.fromPairs(propsType.members
+        .filter(member => member.description)
+        .map(member => [member.name, member.description as string]))
+    ])),
+    warnings: componentData.warnings
+  };
+}
+
+/**
+ * Build the --json report for a component that failed
+ */
+function createFailureReport(component: string, error: unknown): ComponentReport {
+  return {
+    component,
+    success: false,
+    files: [],
+    outputFiles: [],
+    dependencies: [],
+    typeDependencies: [],
+    primitiveImports: {},
+    primitives: [],
+    components: [],
+    collisions: [],
+    diagnostics: [],
+    subComponents: [],
+    types: [],
+    defaults: {},
+    descriptions: {},
+    warnings: [],
+    error: error instanceof Error ? error.message : String(error)
+  };
+}
+
+/**
+ * Write a JSON document to stdout
+ */
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Work out what an extraction would do without installing or writing anything
+ */
+async function planComponent(componentNameOrUrl: string, options: MainOptions): Promise<ExtractionPlan> {
+  if (!componentNameOrUrl) {
+    throw new Error('No component name or URL provided');
+  }
+  
+  const componentData = normalizeComponentName(componentNameOrUrl);
+  const { normalizedName, pascalName } = componentData;
+  const registryInfo = getComponentDependencies(normalizedName);
+  const projectRoot = await findProjectRoot();
+  
+  const componentFiles = await getInstalledComponentPaths(componentData);
+  const installed = componentFiles.length > 0;
+  const filesToCreate: string[] = [];
+  
+  // Dependencies declared by the registry
+  if (registryInfo?.package) {
+    componentData.dependencies.add(registryInfo.package);
+  }
+  (registryInfo?.additionalDeps || []).forEach(dep => componentData.dependencies.add(dep));
+  
+  const typeNames: string[] = [];
+  if (installed) {
+    // Read the installed files for imports and prop types (ts-morph works in memory)
+    for (const file of componentFiles) {
+      const content = await fs.readFile(file, 'utf8');
+      detectDependencies(content, file, componentData);
+      
+      const props = await extractPropsFromFile(file, componentData, { ...options, expanded: false, formats: [] });
+      R.uniq(props.map(found => found.typeName))
+        .filter(name => !typeNames.includes(name))
+        .forEach(name => typeNames.push(name));
+    }
+  } else {
+    // Predict the files shadcn would add, including registry dependencies
+    const uiDir = await resolveUiDirectory(projectRoot);
+    const relativeUiDir = path.relative(projectRoot, uiDir.path);
+    const registryFiles = registryInfo?.files?.length 
+      ? registryInfo.files.map(file => path.join(relativeUiDir, path.basename(file)))
+      : [path.join(relativeUiDir, `${normalizedName}${uiDir.extension}`)];
+    const dependencyFiles = (registryInfo?.registryDependencies || [])
+      .map(dep => path.join(relativeUiDir, `${dep}${uiDir.extension}`))
+      .filter(file => !existsSync(path.join(projectRoot, file)));
+    
+    filesToCreate.push(...registryFiles, ...dependencyFiles);
+    
+    // Type names follow the default sub-component naming
+    typeNames.push(`${pascalName}Props`, ...(registryInfo?.subComponents || []).map(sub => `${pascalName}${sub}Props`));
+  }
+  
+  componentData.variants.forEach(definition => {
+    const baseName = getVariantBaseName(definition);
+    typeNames.push(...Object.keys(definition.variants).map(key => `${baseName}${pascalCase(key)}`), `${baseName}VariantProps`);
+  });
+  
+  // Output files
+  const propsFile = getPropsFilePath(componentData, options);
+  filesToCreate.push(propsFile);
+  if (options.formats?.includes('json-schema')) filesToCreate.push(getFormatFilePath(propsFile, '.schema.json'));
+  if (options.formats?.includes('zod')) filesToCreate.push(getFormatFilePath(propsFile, '.zod.ts'));
+  
+  const dependencyManager = new ShadcnDependencyManager({ packageManager: options.packageManager });
+  const dependencies = await dependencyManager.checkInstalledDependencies([...componentData.dependencies, ...componentData.typeDependencies]);
+  
+  return {
+    component: componentData.componentName,
+    installed,
+    componentFiles: componentFiles.map(file => path.relative(projectRoot, file)),
+    filesToCreate,
+    dependencies,
+    typeNames
+  };
+}
+
+/**
+ * Print a dry-run plan
+ */
+function printPlan(plan: ExtractionPlan): void {
+  const list = (items: string[]) => items.length > 0 
+    ? items.map(item => `  - ${item}`).join('\n') 
+    : chalk.gray('  (none)');
+  
+  log(boxen(chalk.blue.bold(`Dry run: ${plan.component}`), { 
+    padding: 0, 
+    margin: 0,
+    borderStyle: 'round' 
+  }));
+  log(`${chalk.cyan('Component:')} ${plan.installed ? 'already installed' : 'would be installed with the shadcn CLI'}`);
+  if (plan.componentFiles.length > 0) {
+    log(`${chalk.cyan('Files read:')}\n${list(plan.componentFiles)}`);
+  }
+  log(`${chalk.cyan('Files that would be created:')}\n${list(plan.filesToCreate)}`);
+  log(`${chalk.cyan('Dependencies to install:')}\n${list(plan.dependencies.missing)}`);
+  log(`${chalk.cyan('Dependencies already installed:')}\n${list(plan.dependencies.installed)}`);
+  log(`${chalk.cyan('Types that would be emitted:')}\n${list(plan.typeNames)}`);
+  log(chalk.gray('\nNo files or dependencies were changed.'));
+}
+
 /**
  * Main workflow function with comprehensive error handling
  */
-async function main(componentNameOrUrl: string, options: {
-  componentId?: string;
-  depsOnly?: boolean;
-  cleanup?: boolean;
-} = {}): Promise<void> {
-  console.log(boxen(chalk.blue.bold('Shadcn Component Props Extractor'), { 
+async function main(componentNameOrUrl: string, options: MainOptions = {}): Promise<void> {
+  jsonOutput = Boolean(options.json);
+  
+  log(boxen(chalk.blue.bold('Shadcn Component Props Extractor'), { 
     padding: 1, 
     margin: 1,
     borderStyle: 'round' 
   }));
-  console.log(chalk.gray(`Running on ${new Date().toISOString()}\n`));
+  log(chalk.gray(`Running on ${new Date().toISOString()}\n`));
   
   // Set global timeout
+  const timeout = options.timeout ?? OPERATION_TIMEOUT;
   let timeoutId: NodeJS.Timeout | null = setTimeout(() => {
-    console.error(chalk.red(`\n${logSymbols.error} Process timed out after ${OPERATION_TIMEOUT/1000} seconds`));
-    console.log(chalk.yellow('Try running the steps manually:'));
-    console.log(`1. npx shadcn@latest add <component-name> --yes`);
-    console.log(`2. Look for the component files and check their prop types`);
+    if (jsonOutput) {
+      printJson(createFailureReport(componentNameOrUrl, `Process timed out after ${timeout/1000} seconds`));
+      process.exit(1);
+    }
+    console.error(chalk.red(`\n${logSymbols.error} Process timed out after ${timeout/1000} seconds`));
+    log(chalk.yellow('Try running the steps manually:'));
+    log(`1. npx shadcn@latest add <component-name> --yes`);
+    log(`2. Look for the component files and check their prop types`);
     process.exit(1);
-  }, OPERATION_TIMEOUT);
+  }, timeout);
   
   try {
-    if (!componentNameOrUrl) {
-      throw new Error('No component name or URL provided');
-    }
-    
-    // Normalize component name
-    const componentData = normalizeComponentName(componentNameOrUrl);
+    await loadRegistry(options.registrySource);
     
-    // Install component (this step may be skipped if component exists)
-    await installShadcnComponent(componentData);
+    if (options.dryRun || options.depsOnly) {
+      const plan = await planComponent(componentNameOrUrl, options);
+      if (jsonOutput) {
+        printJson(plan);
+      } else {
+        printPlan(plan);
+      }
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+      return;
+    }
     
-    // Extract props
-    const propsText = await extractComponentProps(componentData);
+    const processed = await processComponent(componentNameOrUrl, options);
+    const { componentData, propsText, fileName } = processed;
     
-    // Save to file
-    const fileName = await savePropTypes(propsText, componentData);
+    if (options.barrel) {
+      processed.additionalFiles.push(await saveBarrel([fileName], options));
+    }
     
-    // If component ID is provided, save to database
-    if (options.componentId) {
-      const spinner = ora(`Saving TypeScript content to database...`).start();
-      try {
-        // Read file content
-        const fileContent = await fs.readFile(fileName, 'utf-8');
-        
-        // Save to database
-        await saveToDatabase(options.componentId, fileContent);
-        spinner.succeed(`TypeScript content saved to database for component ID: ${options.componentId}`);
-      } catch (dbError) {
-        spinner.fail(`Failed to save to database: ${dbError instanceof Error ? dbError.message : String(dbError)}`);
-      }
+    // Save to the database when a component ID or database path is provided
+    if (options.componentId || options.database) {
+      await persistComponent(processed, options);
     }
     
     // Clear timeout since we're done
@@ -1469,14 +2282,19 @@ async function main(componentNameOrUrl: string, options: {
       await cleanupTempFiles();
     }
     
+    if (jsonOutput) {
+      printJson(createComponentReport(processed));
+      return;
+    }
+    
     // Display success and preview
-    console.log('\n' + boxen(chalk.green.bold(' SUCCESS '), { 
+    log('\n' + boxen(chalk.green.bold(' SUCCESS '), { 
       padding: 0, 
       margin: 0,
       borderStyle: 'round' 
     }) + ' Process completed successfully!\n');
 
-    console.log(chalk.yellow('File preview:'));
+    log(chalk.yellow('File preview:'));
     
     // Show file preview
     let fileContent: string;
@@ -1488,27 +2306,22 @@ async function main(componentNameOrUrl: string, options: {
     }
     
     const previewLines = fileContent.split('\n').slice(0, 15);
-    console.log(chalk.cyan('-----------------------------------'));
-    console.log(previewLines.join('\n'));
+    log(chalk.cyan('-----------------------------------'));
+    log(previewLines.join('\n'));
     if (fileContent.split('\n').length > 15) {
-      console.log(chalk.gray('... (more lines in the file)'));
+      log(chalk.gray('... (more lines in the file)'));
     }
-    console.log(chalk.cyan('-----------------------------------'));
+    log(chalk.cyan('-----------------------------------'));
     
     // Provide import example
-    const { componentName, normalizedName, pascalName, subComponents } = componentData;
+    const { normalizedName, pascalName, components } = componentData;
+    const componentNames = components.length > 0 ? R.uniq(components.map(component => component.name)) : [pascalName];
+    const typeNames = R.uniq(components.map(component => component.typeName).filter((name): name is string => !!name));
     
-    console.log(chalk.green('\nHow to use:'));
-    console.log(chalk.white(`import { ${pascalName} } from "@/components/ui/${normalizedName}";`));
-    
-    if (subComponents.length > 0) {
-      console.log(chalk.white(`import { 
-  ${pascalName}Props, 
-  ${subComponents.map(sub => `${pascalName}${sub}Props`).join(',\n  ')}
-} from "./${path.basename(fileName)}";`));
-    } else {
-      console.log(chalk.white(`import type { ${pascalName}Props } from "./${path.basename(fileName)}";`));
-    }
+    log(chalk.green('\nHow to use:'));
+    log(chalk.white(`import { ${componentNames.join(', ')} } from "@/components/ui/${normalizedName}";`));
+    const importPath = path.relative(process.cwd(), path.resolve(fileName)).split(path.sep).join('/');
+    log(chalk.white(`import type { ${(typeNames.length > 0 ? typeNames : [`${pascalName}Props`]).join(', ')} } from "${importPath.startsWith('.') ? importPath : `./${importPath}`}";`));
     
   } catch (error) {
     debug('Error in main function:', error);
@@ -1518,11 +2331,15 @@ async function main(componentNameOrUrl: string, options: {
       timeoutId = null;
     }
     
-    console.error(chalk.red(`\n${logSymbols.error} Error: ${error instanceof Error ? error.message : String(error)}`));
-    console.log(chalk.yellow('\nTroubleshooting tips:'));
-    console.log('1. Check if the component name is correct');
-    console.log('2. Make sure shadcn is properly installed in your project');
-    console.log('3. Try running `npx shadcn@latest add <component-name> --yes` manually');
+    if (jsonOutput) {
+      printJson(createFailureReport(componentNameOrUrl, error));
+    } else {
+      console.error(chalk.red(`\n${logSymbols.error} Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+    log(chalk.yellow('\nTroubleshooting tips:'));
+    log('1. Check if the component name is correct');
+    log('2. Make sure shadcn is properly installed in your project');
+    log('3. Try running `npx shadcn@latest add <component-name> --yes` manually');
     
     // Try to clean up even on error
     try {
@@ -1535,22 +2352,237 @@ async function main(componentNameOrUrl: string, options: {
   }
 }
 
+/**
+ * Read the previously generated props a diff compares against
+ */
+async function readBaselineProps(componentData: ComponentData, options: DiffOptions): Promise<{ text: string; source: string }> {
+  if (options.revision !== undefined) {
+    const db = await openComponentDatabase(options.database);
+    try {
+      const revision = await getRevision(db, componentData.normalizedName, options.revision === 'latest' ? undefined : options.revision);
+      if (!revision) {
+        throw new Error(`Revision ${options.revision} of ${componentData.normalizedName} not found in the database`);
+      }
+      return { text: revision.typescript, source: `revision #${revision.revision}` };
+    } finally {
+      await db.close();
+    }
+  }
+  
+  const fileName = options.against || getPropsFilePath(componentData, options);
+  if (!existsSync(fileName)) {
+    throw new Error(`No previous props file found at ${fileName}; pass --against <file> or --revision <n>`);
+  }
+  return { text: await fs.readFile(fileName, 'utf8'), source: fileName };
+}
+
+/**
+ * Compare the props of the installed component with a previous extraction
+ * Nothing is installed or written; both versions are analyzed in memory
+ */
+async function diffComponentProps(componentNameOrUrl: string, options: DiffOptions = {}): Promise<PropsDiffResult> {
+  jsonOutput = Boolean(options.json);
+  await loadRegistry(options.registrySource);
+  
+  const componentData = normalizeComponentName(componentNameOrUrl);
+  const baseline = await readBaselineProps(componentData, options);
+  
+  const project = options.project || createExtractionProject();
+  const currentText = await extractComponentProps(componentData, { ...options, project, skipInstall: true, formats: [] });
+  
+  // Placeholder interfaces would be reported as every prop being removed
+  if (componentData.files.length === 0 || componentData.usedDefaults) {
+    const reason = componentData.warnings
+      .filter(warning => warning.endsWith('; emitted default props interfaces'))
+      .map(warning => warning.replace(/; emitted default props interfaces$/, ''))
+      .pop();
+    throw new Error(`Could not extract the current props of ${componentData.componentName}${reason ? `: ${reason}` : ''}`);
+  }
+  
+  // Virtual files in the project root so imports resolve against its node_modules
+  const projectRoot = await findProjectRoot();
+  const beforeFile = project.createSourceFile(path.join(projectRoot, '__props-diff-before.ts'), baseline.text, { overwrite: true });
+  const afterFile = project.createSourceFile(path.join(projectRoot, '__props-diff-after.ts'), currentText, { overwrite: true });
+  
+  try {
+    const changes = compareSnapshots(snapshotPropsTypes(beforeFile), snapshotPropsTypes(afterFile));
+    return {
+      component: componentData.componentName,
+      baseline: baseline.source,
+      changes,
+      breaking: changes.some(change => change.breaking),
+      warnings: componentData.warnings
+    };
+  } finally {
+    project.removeSourceFile(beforeFile);
+    project.removeSourceFile(afterFile);
+  }
+}
+
+/**
+ * Print a per-component summary table for a batch run
+ */
+function printBatchSummary(results: BatchResult[]): void {
+  const rows = results.map(result => [
+    result.success ? chalk.green(logSymbols.success) : chalk.red(logSymbols.error),
+    result.component,
+    result.success ? String(result.typeCount) : '-',
+    `${(result.durationMs / 1000).toFixed(1)}s`,
+    result.success ? (result.fileName || '') : chalk.red(result.error || 'Unknown error')
+  ]);
+  
+  const headers = ['', 'Component', 'Types', 'Time', 'Output / Error'];
+  const widths = headers.map((header, column) => Math.max(
+    header.length,
+    ...rows.map(row => stripAnsi(row[column]).length)
+  ));
+  const formatRow = (row: string[]) => row
+    .map((cell, column) => cell + ' '.repeat(widths[column] - stripAnsi(cell).length))
+    .join('  ')
+    .replace(/\s+$/, '');
+  
+  log('\n' + chalk.bold(formatRow(headers)));
+  log(chalk.gray(widths.map(width => '-'.repeat(width)).join('  ')));
+  rows.forEach(row => log(formatRow(row)));
+  
+  const failed = results.filter(result => !result.success).length;
+  const summary = `${results.length - failed} succeeded, ${failed} failed`;
+  log('\n' + (failed > 0 ? chalk.yellow(summary) : chalk.green(summary)));
+}
+
+/**
+ * Extract props for several components in one run, sharing a single ts-morph project
+ * Failures are recorded per component instead of ending the process
+ */
+async function runBatch(components: string[], options: MainOptions = {}): Promise<BatchResult[]> {
+  jsonOutput = Boolean(options.json);
+  
+  log(boxen(chalk.blue.bold('Shadcn Component Props Extractor'), { 
+    padding: 1, 
+    margin: 1,
+    borderStyle: 'round' 
+  }));
+  log(chalk.gray(`Running on ${new Date().toISOString()} for ${pluralize('component', components.length, true)}\n`));
+  
+  if (options.componentId) {
+    console.warn(chalk.yellow(`${logSymbols.warning} --component-id is ignored when extracting several components`));
+  }
+  
+  await loadRegistry(options.registrySource);
+  
+  const batchOptions: MainOptions = { ...options, componentId: undefined, project: options.project || createExtractionProject() };
+  const results: BatchResult[] = [];
+  // Per-component documents printed in --json mode
+  const reports: Array<ComponentReport | ExtractionPlan> = [];
+  
+  for (const component of components) {
+    log(chalk.blue.bold(`\n▶ ${component}`));
+    const startedAt = Date.now();
+    
+    if (options.dryRun || options.depsOnly) {
+      try {
+        const plan = await planComponent(component, batchOptions);
+        if (!jsonOutput) printPlan(plan);
+        reports.push(plan);
+        results.push({ component, success: true, additionalFiles: [], typeCount: plan.typeNames.length, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        reports.push(createFailureReport(component, error));
+        results.push({ component, success: false, additionalFiles: [], typeCount: 0, durationMs: Date.now() - startedAt, error: error instanceof Error ? error.message : String(error) });
+      }
+      continue;
+    }
+    
+    try {
+      const processed = await withTimeout(
+        signal => processComponent(component, { ...batchOptions, signal }),
+        options.timeout ?? OPERATION_TIMEOUT,
+        `Extraction of ${component}`
+      );
+      
+      if (options.database) {
+        await persistComponent(processed, batchOptions);
+      }
+      
+      reports.push(createComponentReport(processed));
+      results.push({
+        component,
+        success: true,
+        fileName: processed.fileName,
+        additionalFiles: processed.additionalFiles,
+        typeCount: getDeclaredTypeNames(processed.propsText).length,
+        durationMs: Date.now() - startedAt
+      });
+    } catch (error) {
+      debug(`Batch extraction failed for ${component}:`, error);
+      reports.push(createFailureReport(component, error));
+      results.push({
+        component,
+        success: false,
+        additionalFiles: [],
+        typeCount: 0,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  // One barrel for the whole batch, keeping the files earlier runs added to it
+  let barrel: string | undefined;
+  const propsFiles = results.map(result => result.fileName).filter((file): file is string => !!file);
+  if (options.barrel && propsFiles.length > 0) {
+    try {
+      barrel = await saveBarrel(propsFiles, options);
+    } catch (error) {
+      debug('Could not write barrel:', error);
+      console.error(chalk.yellow(`Warning: Could not write barrel: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+  
+  if (options.cleanup !== false) {
+    await cleanupTempFiles();
+  }
+  
+  if (jsonOutput) {
+    printJson({ success: results.every(result => result.success), components: reports, ...(barrel ? { barrel } : {}) });
+  } else {
+    printBatchSummary(results);
+  }
+  return results;
+}
+
 // Run if called directly from CLI
 if (require.main === module) {
   if (process.argv.length < 3) {
     console.error(chalk.red(`${logSymbols.error} Please provide a shadcn component URL or name`));
-    console.log(`Usage: ${chalk.cyan('ts-node get-shadcn-props.ts <component-name> [--component-id=<id>]')}`);
-    console.log(`Example: ${chalk.cyan('ts-node get-shadcn-props.ts accordion --component-id=abc123')}`);
+    log(`Usage: ${chalk.cyan('ts-node get-shadcn-props.ts <component-name> [--component-id=<id>]')}`);
+    log(`Example: ${chalk.cyan('ts-node get-shadcn-props.ts accordion --component-id=abc123')}`);
     process.exit(1);
   }
-  console.log(chalk.blue.bold(`${process.argv}`));
+  
+  // Set before anything is logged so --json keeps stdout to the JSON document
+  jsonOutput = process.argv.includes('--json');
+  log(chalk.blue.bold(`${process.argv}`));
   
   const componentNameOrUrl = process.argv[2];
-  const options: {
-    componentId?: string;
-    depsOnly?: boolean;
-    cleanup?: boolean;
-  } = {};
+  const options: MainOptions = {};
+  
+  // Parse --package-manager=<name> from arguments
+  const packageManagerArg = process.argv.find(arg => arg.startsWith('--package-manager='));
+  if (packageManagerArg) {
+    options.packageManager = packageManagerArg.split('=')[1] as PackageManager;
+  }
+  
+  // Parse --registry-source=<path> from arguments
+  const registrySourceArg = process.argv.find(arg => arg.startsWith('--registry-source='));
+  if (registrySourceArg) {
+    options.registrySource = registrySourceArg.split('=')[1];
+  }
+  
+  // Parse --database=<path> from arguments
+  const databaseArg = process.argv.find(arg => arg.startsWith('--database='));
+  if (databaseArg) {
+    options.database = databaseArg.split('=')[1];
+  }
   
   // Parse --component-id=<value> from arguments
   const componentIdArg = process.argv.find(arg => arg.startsWith('component-id='));
@@ -1559,11 +2591,25 @@ if (require.main === module) {
   }
   
   // Parse other options if needed
+  options.dryRun = process.argv.includes('--dry-run');
+  options.json = process.argv.includes('--json');
   options.depsOnly = process.argv.includes('--deps-only');
   options.cleanup = !process.argv.includes('--no-cleanup');
+  options.expanded = process.argv.includes('--expanded');
+  
+  // Parse --format=<list> from arguments
+  const formatArg = process.argv.find(arg => arg.startsWith('--format='));
+  if (formatArg) {
+    try {
+      options.formats = parseFormats(formatArg.split('=')[1]);
+    } catch (error) {
+      console.error(chalk.red(`${logSymbols.error} ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
 
-  console.log(chalk.blue(`\nStarting extraction for component: ${componentNameOrUrl}`));
-  console.log(chalk.gray(`Options: ${JSON.stringify(options, null, 2)}\n`));
+  log(chalk.blue(`\nStarting extraction for component: ${componentNameOrUrl}`));
+  log(chalk.gray(`Options: ${JSON.stringify(options, null, 2)}\n`));
   
   main(componentNameOrUrl, options).catch(error => {
     debug('Unhandled error:', error);
@@ -1579,5 +2625,14 @@ export {
   extractPropsFromFile,
   extractComponentProps,
   savePropTypes,
-  main
-};
\ No newline at end of file
+  planComponent,
+  diffComponentProps,
+  saveJsonSchema,
+  saveZodSchemas,
+  main,
+  runBatch,
+  parseFormats,
+  OUTPUT_FORMATS
+};
+
+export type { ComponentData, FoundProps, ExtractOptions, MainOptions, OutputFormat, BatchResult, ExtractionPlan, ComponentReport, DiffOptions, PropsDiffResult };
\ No newline at end of file
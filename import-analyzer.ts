@@ -0,0 +1,142 @@
+/**
+ * Reads the modules a component file imports from its syntax tree
+ * Used to detect npm dependencies instead of matching package names in text
+ */
+
+import { builtinModules } from 'module';
+import { ts } from 'ts-morph';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:imports');
+
+/**
+ * Syntax that brought a module in
+ */
+export type ImportKind = 'static' | 'dynamic' | 're-export' | 'import-type';
+
+export interface ModuleImport {
+  /**
+   * Module specifier as written (e.g., date-fns/locale)
+   */
+  source: string;
+
+  /**
+   * npm package the specifier belongs to, or null for relative files, path aliases and Node builtins
+   */
+  packageName: string | null;
+
+  kind: ImportKind;
+
+  /**
+   * Whether the import is erased at runtime (import type, export type, import("x").Type)
+   */
+  typeOnly: boolean;
+}
+
+/**
+ * npm packages used by a file, split by whether they are needed at runtime
+ */
+export interface PackageDependencies {
+  runtime: string[];
+  typeOnly: string[];
+}
+
+/**
+ * Map a module specifier to its package name
+ * e.g. @radix-ui/react-dialog -> @radix-ui/react-dialog, date-fns/locale -> date-fns
+ */
+export function getPackageName(specifier: string): string | null {
+  // Relative files and the @/, ~/ and #/ aliases shadcn projects use
+  if (/^[./]/.test(specifier) || /^[@~#]\//.test(specifier) || specifier.startsWith('node:')) {
+    return null;
+  }
+
+  const parts = specifier.split('/');
+  if (specifier.startsWith('@')) {
+    return parts.length >= 2 ? `${parts[0]}/${parts[1]}` : null;
+  }
+
+  return builtinModules.includes(parts[0]) ? null : parts[0];
+}
+
+/**
+ * Whether an import declaration is erased at runtime
+ */
+function isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+  const importClause = node.importClause;
+
+  // Side-effect imports such as import "./styles.css" always run
+  if (!importClause) return false;
+  if (importClause.isTypeOnly) return true;
+  if (importClause.name) return false;
+
+  const namedBindings = importClause.namedBindings;
+  return !!namedBindings &&
+    ts.isNamedImports(namedBindings) &&
+    namedBindings.elements.length > 0 &&
+    namedBindings.elements.every(element => element.isTypeOnly);
+}
+
+/**
+ * Whether an export ... from declaration is erased at runtime
+ */
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) return true;
+
+  const exportClause = node.exportClause;
+  return !!exportClause &&
+    ts.isNamedExports(exportClause) &&
+    exportClause.elements.length > 0 &&
+    exportClause.elements.every(element => element.isTypeOnly);
+}
+
+/**
+ * Find every module a file imports: static, dynamic, re-exported and import("x") types
+ */
+export function findModuleImports(content: string, fileName = 'component.tsx'): ModuleImport[] {
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const imports: ModuleImport[] = [];
+
+  const add = (source: string, kind: ImportKind, typeOnly: boolean): void => {
+    imports.push({ source, packageName: getPackageName(source), kind, typeOnly });
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      add(node.moduleSpecifier.text, 'static', isTypeOnlyImport(node));
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      add(node.moduleSpecifier.text, 're-export', isTypeOnlyExport(node));
+    } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      const [specifier] = node.arguments;
+      if (specifier && ts.isStringLiteralLike(specifier)) {
+        add(specifier.text, 'dynamic', false);
+      }
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal)) {
+      add(node.argument.literal.text, 'import-type', true);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  debug(`Imports in ${fileName}: ${imports.map(imp => imp.source).join(', ')}`);
+  return imports;
+}
+
+/**
+ * Group imports by package; a package is type-only when no import of it survives at runtime
+ */
+export function groupDependencies(imports: ModuleImport[]): PackageDependencies {
+  const runtime = new Set<string>();
+  const typeOnly = new Set<string>();
+
+  imports.forEach(({ packageName, typeOnly: isTypeOnly }) => {
+    if (!packageName) return;
+    (isTypeOnly ? typeOnly : runtime).add(packageName);
+  });
+
+  return {
+    runtime: [...runtime],
+    typeOnly: [...typeOnly].filter(packageName => !runtime.has(packageName))
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Converts extracted props types into JSON Schema documents
+ * Visual builders consume these to render editors for each component part
+ */
+
+import { ExpandedPropMember, ExpandedPropsType } from './prop-expander';
+import { VariantDefinition, getVariantBaseName } from './variant-extractor';
+import { parseDefaultValue } from './default-extractor';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+  additionalProperties?: boolean;
+  // Original TypeScript type text, kept so consumers can show it
+  tsType?: string;
+}
+
+export interface JsonSchemaSource {
+  pascalName: string;
+  expandedProps: ExpandedPropsType[];
+  variants: VariantDefinition[];
+}
+
+/**
+ * Map a single expanded member to a JSON Schema property
+ */
+function memberToSchema(member: ExpandedPropMember): JsonSchema {
+  const schema: JsonSchema = {};
+
+  if (member.description) {
+    schema.description = member.description;
+  }
+
+  switch (member.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      schema.type = member.kind;
+      break;
+    case 'enum': {
+      const values = member.enumValues || [];
+      // An empty enum would reject every value
+      if (values.length === 0) break;
+      const types = Array.from(new Set(values.map(value => typeof value)));
+      schema.type = types.length === 1 ? types[0] : types;
+      schema.enum = values;
+      break;
+    }
+    case 'array':
+      schema.type = 'array';
+      break;
+    case 'react-node':
+      // Builders typically edit rendered content as text
+      schema.type = ['string', 'number', 'boolean', 'null'];
+      break;
+    case 'object':
+      schema.type = 'object';
+      break;
+  }
+
+  // Only literal defaults can be expressed in JSON
+  const defaultValue = member.defaultValue !== undefined ? parseDefaultValue(member.defaultValue) : undefined;
+  if (defaultValue !== undefined) {
+    schema.default = defaultValue;
+  }
+
+  schema.tsType = member.type;
+  return schema;
+}
+
+/**
+ * Build an object schema for one expanded props type
+ */
+export function propsTypeToSchema(propsType: ExpandedPropsType): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  propsType.members
+    // Callbacks cannot be expressed or edited as JSON
+    .filter(member => member.kind !== 'function')
+    .forEach(member => {
+      properties[member.name] = memberToSchema(member);
+      if (!member.optional) {
+        required.push(member.name);
+      }
+    });
+
+  return {
+    title: propsType.name,
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+/**
+ * Build an object schema for the variant props of a cva definition
+ */
+export function variantsToSchema(definition: VariantDefinition): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+
+  Object.entries(definition.variants).forEach(([key, values]) => {
+    const isBoolean = values.length > 0 && values.every(value => value === 'true' || value === 'false');
+    const defaultValue = definition.defaultVariants[key];
+
+    properties[key] = {
+      description: `"${key}" variant from ${definition.name}`,
+      // Values that could not be read accept any string, as in the TypeScript and Zod output
+      ...(isBoolean ? { type: 'boolean' } : values.length > 0 ? { type: 'string', enum: values } : { type: 'string' }),
+      ...(defaultValue !== undefined
+        ? { default: isBoolean ? defaultValue === 'true' : defaultValue }
+        : {})
+    };
+  });
+
+  return {
+    title: `${getVariantBaseName(definition)}VariantProps`,
+    type: 'object',
+    properties
+  };
+}
+
+/**
+ * Generate a JSON Schema document covering every extracted props type of a component
+ */
+export function generateJsonSchema(source: JsonSchemaSource): JsonSchema {
+  const definitions: Record<string, JsonSchema> = {};
+
+  source.expandedProps.forEach(propsType => {
+    definitions[propsType.name] = propsTypeToSchema(propsType);
+  });
+
+  source.variants.forEach(definition => {
+    const variantSchema = variantsToSchema(definition);
+    definitions[variantSchema.title as string] = variantSchema;
+  });
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: `${source.pascalName}Props.schema.json`,
+    title: `${source.pascalName} props`,
+    definitions
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Follows imports of local files (relative paths and @/ aliases) to what the props types reference
+ * Types are copied, cva definitions become variant types and components are imported type-only
+ */
+
+import path from 'path';
+import { Node, SourceFile } from 'ts-morph';
+import Debug from 'debug';
+import { VariantDefinition, extractVariants } from './variant-extractor';
+
+const debug = Debug('shadcn:local');
+
+/**
+ * Value from a local module referenced with typeof, e.g. React.ComponentProps<typeof Button>
+ */
+export interface LocalTypeImport {
+  // Name the props types use
+  name: string;
+  // Name the module exports
+  importedName: string;
+  // Specifier that works from the generated file: aliases as written, relative paths rebased
+  specifier: string;
+}
+
+/**
+ * Type or interface copied from another local file
+ */
+export interface LocalDeclaration {
+  name: string;
+  text: string;
+  // Module the declaration was copied from (e.g., @/components/ui/button)
+  source: string;
+}
+
+export interface LocalReferences {
+  declarations: LocalDeclaration[];
+  variants: VariantDefinition[];
+  typeImports: LocalTypeImport[];
+  // Local files that were followed
+  files: string[];
+}
+
+interface Candidate {
+  name: string;
+  importedName: string;
+  file: SourceFile;
+  specifier: string;
+}
+
+/**
+ * Whether a resolved module is part of the project rather than an npm package
+ */
+function isLocalFile(file: SourceFile): boolean {
+  return !file.getFilePath().includes('/node_modules/');
+}
+
+/**
+ * Relative specifier of a file as seen from the directory the generated file is written to
+ */
+function getFileSpecifier(file: SourceFile, outputDir: string): string {
+  const modulePath = file.getFilePath().replace(/(\/index)?\.(tsx?|jsx?)$/, '');
+  const relative = path.relative(outputDir, modulePath).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Rebase a relative specifier onto the directory the generated file is written to
+ */
+function toOutputSpecifier(specifier: string, file: SourceFile, outputDir: string): string {
+  return specifier.startsWith('.') ? getFileSpecifier(file, outputDir) : specifier;
+}
+
+/**
+ * Named and default imports a file takes from local modules
+ */
+function getLocalBindings(file: SourceFile, outputDir: string): Candidate[] {
+  const bindings: Candidate[] = [];
+
+  file.getImportDeclarations().forEach(declaration => {
+    const target = declaration.getModuleSpecifierSourceFile();
+    if (!target || !isLocalFile(target)) return;
+
+    const specifier = toOutputSpecifier(declaration.getModuleSpecifierValue(), target, outputDir);
+    const defaultImport = declaration.getDefaultImport();
+    if (defaultImport) {
+      bindings.push({ name: defaultImport.getText(), importedName: 'default', file: target, specifier });
+    }
+
+    declaration.getNamedImports().forEach(named => {
+      bindings.push({
+        name: named.getAliasNode()?.getText() || named.getName(),
+        importedName: named.getName(),
+        file: target,
+        specifier
+      });
+    });
+  });
+
+  return bindings;
+}
+
+/**
+ * Top-level declarations of a followed file, which its copied types may reference directly
+ */
+function getOwnDeclarations(file: SourceFile, specifier: string): Candidate[] {
+  const names = [
+    ...file.getInterfaces().map(declaration => declaration.getName()),
+    ...file.getTypeAliases().map(declaration => declaration.getName()),
+    ...file.getVariableDeclarations().map(declaration => declaration.getName()),
+    ...file.getFunctions().map(declaration => declaration.getName() || '')
+  ].filter(Boolean);
+
+  return names.map(name => ({ name, importedName: name, file, specifier }));
+}
+
+/**
+ * Values the component file exports, which its own props may reference with typeof
+ */
+function getExportedValues(file: SourceFile, outputDir: string): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  file.getExportedDeclarations().forEach((declarations, name) => {
+    if (declarations.some(declaration => Node.isVariableDeclaration(declaration) || Node.isFunctionDeclaration(declaration))) {
+      candidates.push({ name, importedName: name, file, specifier: getFileSpecifier(file, outputDir) });
+    }
+  });
+
+  return candidates;
+}
+
+/**
+ * Find the declaration a candidate name points at in its module
+ */
+function getDeclaration(candidate: Candidate): Node | undefined {
+  const { file, importedName } = candidate;
+  return file.getInterface(importedName) ||
+    file.getTypeAlias(importedName) ||
+    file.getVariableDeclaration(importedName) ||
+    file.getFunction(importedName) ||
+    file.getExportedDeclarations().get(importedName)?.[0];
+}
+
+/**
+ * Whether a type text uses a name, ignoring comments and member accesses such as React.Button
+ */
+function referencesName(text: string, name: string): boolean {
+  const code = text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const escaped = name.replace(/[$]/g, '\\$');
+  return new RegExp(`(^|[^\\w$.])${escaped}(?![\\w$])`).test(code);
+}
+
+/**
+ * Collect the declarations from other local files that the given props texts reference
+ * Copied types are followed in turn, so their own references are included
+ */
+export function collectLocalReferences(sourceFile: SourceFile, texts: string[], outputDir: string = process.cwd()): LocalReferences {
+  const references: LocalReferences = { declarations: [], variants: [], typeImports: [], files: [] };
+  const seen = new Set<string>();
+  const queue: Array<{ file: SourceFile; text: string; specifier: string | null }> =
+    texts.map(text => ({ file: sourceFile, text, specifier: null }));
+
+  while (queue.length > 0) {
+    const { file, text, specifier } = queue.shift() as { file: SourceFile; text: string; specifier: string | null };
+
+    // Types of the component file itself are handled by the extractor, only its values are imported
+    const candidates = [
+      ...getLocalBindings(file, outputDir),
+      ...(specifier ? getOwnDeclarations(file, specifier) : getExportedValues(file, outputDir))
+    ];
+
+    candidates.filter(candidate => referencesName(text, candidate.name)).forEach(candidate => {
+      const key = `${candidate.file.getFilePath()}#${candidate.importedName}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const declaration = getDeclaration(candidate);
+      if (!declaration) {
+        debug(`Could not find ${candidate.importedName} in ${candidate.specifier}`);
+        return;
+      }
+
+      const filePath = candidate.file.getFilePath();
+      if (candidate.file !== sourceFile && !references.files.includes(filePath)) {
+        references.files.push(filePath);
+      }
+
+      if (Node.isInterfaceDeclaration(declaration) || Node.isTypeAliasDeclaration(declaration)) {
+        const declaredName = declaration.getName();
+        // Keep the local name the props use when the import was renamed
+        const alias = declaredName !== candidate.name ? `\n\ntype ${candidate.name} = ${declaredName};` : '';
+        references.declarations.push({ name: declaredName, text: declaration.getText() + alias, source: candidate.specifier });
+        queue.push({ file: candidate.file, text: declaration.getText(), specifier: candidate.specifier });
+        return;
+      }
+
+      const variant = Node.isVariableDeclaration(declaration)
+        ? extractVariants(candidate.file).find(definition => definition.name === declaration.getName())
+        : undefined;
+      if (variant) {
+        references.variants.push(variant);
+        return;
+      }
+
+      // Components and other values can only be referenced through an import
+      const exported = candidate.importedName === 'default' || candidate.file.getExportedDeclarations().has(candidate.importedName);
+      if (exported) {
+        references.typeImports.push({ name: candidate.name, importedName: candidate.importedName, specifier: candidate.specifier });
+      } else {
+        debug(`${candidate.importedName} is not exported from ${candidate.specifier}`);
+      }
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Render type-only imports grouped by module
+ */
+export function renderLocalTypeImports(imports: LocalTypeImport[]): string[] {
+  const bySpecifier = new Map<string, string[]>();
+
+  imports.forEach(({ name, importedName, specifier }) => {
+    const binding = importedName === 'default'
+      ? `default as ${name}`
+      : importedName === name ? name : `${importedName} as ${name}`;
+    const bindings = bySpecifier.get(specifier) || [];
+    if (!bindings.includes(binding)) bindings.push(binding);
+    bySpecifier.set(specifier, bindings);
+  });
+
+  return [...bySpecifier].map(([specifier, bindings]) => `import type { ${bindings.join(', ')} } from "${specifier}";`);
+}
@@ -0,0 +1,120 @@
+/**
+ * Package manager detection for dependency installation
+ * Supports npm, yarn, pnpm and bun, including workspace-filtered installs
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import findUp from 'find-up';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:pm');
+
+export const PACKAGE_MANAGERS = ['npm', 'yarn', 'pnpm', 'bun'] as const;
+export type PackageManager = typeof PACKAGE_MANAGERS[number];
+
+// Lockfiles that identify each package manager
+export const LOCKFILES: Array<{ file: string; manager: PackageManager }> = [
+  { file: 'pnpm-lock.yaml', manager: 'pnpm' },
+  { file: 'bun.lockb', manager: 'bun' },
+  { file: 'bun.lock', manager: 'bun' },
+  { file: 'yarn.lock', manager: 'yarn' },
+  { file: 'package-lock.json', manager: 'npm' }
+];
+
+/**
+ * Package manager detected for the current project
+ */
+export interface PackageManagerInfo {
+  name: PackageManager;
+  // Directory of the nearest package.json (the package dependencies belong to)
+  packageDir: string;
+  // Workspace root when the package lives inside a monorepo
+  workspaceRoot?: string;
+  // Package name used as the workspace filter
+  workspace?: string;
+}
+
+/**
+ * Read and parse a package.json file, returning null on failure
+ */
+async function readPackageJson(pkgPath: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(pkgPath, 'utf8'));
+  } catch (error) {
+    debug(`Error reading ${pkgPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse the corepack "packageManager" field (e.g., pnpm@9.1.0)
+ */
+function parsePackageManagerField(value: unknown): PackageManager | null {
+  if (typeof value !== 'string') return null;
+  
+  const name = value.split('@')[0];
+  return (PACKAGE_MANAGERS as readonly string[]).includes(name) ? name as PackageManager : null;
+}
+
+/**
+ * Detect the package manager from the packageManager field and lockfiles
+ * A lockfile above the nearest package.json means we are inside a workspace
+ */
+export async function detectPackageManager(forced?: PackageManager, cwd: string = process.cwd()): Promise<PackageManagerInfo> {
+  const pkgPath = await findUp('package.json', { cwd });
+  const packageDir = pkgPath ? path.dirname(pkgPath) : cwd;
+  const pkg = pkgPath ? await readPackageJson(pkgPath) : null;
+  
+  // Nearest lockfile wins; ties keep the LOCKFILES order
+  let lockfile: { dir: string; manager: PackageManager } | null = null;
+  for (const { file, manager } of LOCKFILES) {
+    const found = await findUp(file, { cwd: packageDir });
+    if (found && (!lockfile || path.dirname(found).length > lockfile.dir.length)) {
+      lockfile = { dir: path.dirname(found), manager };
+    }
+  }
+  
+  const workspaceRoot = lockfile && lockfile.dir !== packageDir ? lockfile.dir : undefined;
+  const rootPkg = workspaceRoot ? await readPackageJson(path.join(workspaceRoot, 'package.json')) : null;
+  
+  const name = forced ||
+    parsePackageManagerField(pkg?.packageManager) ||
+    parsePackageManagerField(rootPkg?.packageManager) ||
+    lockfile?.manager ||
+    'npm';
+  
+  debug(`Detected package manager ${name}${workspaceRoot ? ` (workspace root ${workspaceRoot})` : ''}`);
+  
+  return {
+    name,
+    packageDir,
+    ...(workspaceRoot && pkg?.name ? { workspaceRoot, workspace: pkg.name } : {})
+  };
+}
+
+/**
+ * Build the command that adds dependencies with the detected package manager
+ */
+export function getAddCommand(info: PackageManagerInfo, dependencies: string[]): {
+  command: string;
+  args: string[];
+  cwd: string;
+} {
+  const { name, packageDir, workspaceRoot, workspace } = info;
+  
+  // Bun has no workspace filter for add, so run it from the package directory
+  if (!workspace || !workspaceRoot || name === 'bun') {
+    const args = name === 'npm' ? ['install', '--save', ...dependencies] : ['add', ...dependencies];
+    return { command: name, args, cwd: packageDir };
+  }
+  
+  switch (name) {
+    case 'pnpm':
+      return { command: 'pnpm', args: ['--filter', workspace, 'add', ...dependencies], cwd: workspaceRoot };
+    case 'yarn':
+      return { command: 'yarn', args: ['workspace', workspace, 'add', ...dependencies], cwd: workspaceRoot };
+    default:
+      return { command: 'npm', args: ['install', '--save', '--workspace', workspace, ...dependencies], cwd: workspaceRoot };
+  }
+}
@@ -6,24 +6,53 @@
 import { readFile } from 'fs/promises';
 import * as path from 'path';
 import * as ts from 'typescript';
-import { parse as parseImports } from 'es-module-lexer';
 import Debug from 'debug';
 import chalk from 'chalk';
 import { getComponentDependencies } from './component-registry';
+import { getPackageName } from './import-analyzer';
 
 const debug = Debug('shadcn:primitive');
 
+// Utility and icon packages that never provide component primitives
+const NON_PRIMITIVE_PACKAGES = [
+  'react',
+  'react-dom',
+  'class-variance-authority',
+  'clsx',
+  'tailwind-merge',
+  'lucide-react',
+  '@radix-ui/react-icons'
+];
+
+// Statics that are not sub-components
+const IGNORED_MEMBERS = ['displayName', 'propTypes', 'defaultProps'];
+
+/**
+ * How a primitive is imported (import * as X, import { X }, import X)
+ */
+export type PrimitiveImportStyle = 'namespace' | 'named' | 'default';
+
 export interface PrimitiveData {
   /**
-   * Name of the primitive (e.g., AccordionPrimitive)
+   * Local name of the primitive (e.g., AccordionPrimitive)
    */
   name: string;
   
+  /**
+   * Exported name for named imports (e.g., Drawer in { Drawer as DrawerPrimitive })
+   */
+  importedName?: string;
+  
   /**
    * Package to import from (e.g., @radix-ui/react-accordion)
    */
   package: string;
   
+  /**
+   * Import form used in the component file
+   */
+  importStyle: PrimitiveImportStyle;
+  
   /**
    * Sub-components that are used (e.g., Root, Item, etc.)
    */
@@ -31,91 +60,113 @@ export interface PrimitiveData {
 }
 
 /**
- * Analyze a component file to extract primitive imports and usages
+ * Analyze a component file to extract every primitive import and its usages
+ * Components like Drawer (vaul + dialog) or Form (react-hook-form + label + slot) use several
  */
-export async function analyzePrimitives(filePath: string, componentName: string): Promise<PrimitiveData | null> {
+export async function analyzePrimitives(filePath: string, componentName: string, content?: string): Promise<PrimitiveData[]> {
   try {
-    // First try to get from registry
-    const registryData = getComponentDependencies(componentName);
+    // Sources read from a registry bundle are not on disk
+    const fileContent = content ?? await readFile(filePath, 'utf8');
+    
+    const analyzed = analyzeWithTypeScript(fileContent, componentName);
+    if (analyzed.length > 0) {
+      return analyzed;
+    }
     
+    // Fall back to the registry's primary primitive
+    const registryData = getComponentDependencies(componentName);
     if (registryData && registryData.package && registryData.primitive) {
-      return {
+      return [{
         name: registryData.primitive,
         package: registryData.package,
+        importStyle: 'namespace',
         subComponents: registryData.subComponents || []
-      };
+      }];
     }
     
-    // If not in registry, try to analyze the file
-    const fileContent = await readFile(filePath, 'utf8');
-    
-    // Parse imports first
-    const primitiveImports = await extractPrimitiveImports(fileContent);
-    if (primitiveImports) {
-      return primitiveImports;
-    }
-    
-    // If no imports found, try to analyze code with TypeScript
-    return analyzeWithTypeScript(fileContent, componentName);
+    return [];
   } catch (error) {
     debug(`Error analyzing primitives in ${filePath}:`, error);
     console.error(chalk.yellow(`Warning: Could not analyze primitives: ${error instanceof Error ? error.message : String(error)}`));
-    return null;
+    return [];
   }
 }
 
 /**
- * Extract primitive imports from file content using es-module-lexer
+ * Render the type-only import statement for a primitive
+ * Generated files only use primitives in types (e.g., typeof AccordionPrimitive.Root)
  */
-async function extractPrimitiveImports(content: string): Promise<PrimitiveData | null> {
-  try {
-    const [imports] = parseImports(content);
-    
-    for (const imp of imports) {
-      const importStatement = content.substring(imp.ss, imp.se);
-      
-      // Check if this is a primitive import
-      if (imp.n && 
-          (imp.n.includes('@radix-ui/react-') || 
-           imp.n === 'cmdk' || 
-           imp.n === 'react-day-picker')) {
-        
-        // Extract primitive name from import statement
-        const primitiveMatch = importStatement.match(/import\s+\*\s+as\s+([A-Za-z0-9_]+Primitive)\s+from/);
-        if (primitiveMatch && primitiveMatch[1]) {
-          const primitiveName = primitiveMatch[1];
-          
-          // Extract sub-components by analyzing the file content
-          const subComponentRegex = new RegExp(`${primitiveName}\\.([A-Za-z0-9_]+)`, 'g');
-          const subComponents = new Set<string>();
-          let match;
-          
-          while ((match = subComponentRegex.exec(content)) !== null) {
-            if (match[1] && !['displayName', 'propTypes', 'defaultProps'].includes(match[1])) {
-              subComponents.add(match[1]);
-            }
-          }
-          
-          return {
-            name: primitiveName,
-            package: imp.n,
-            subComponents: Array.from(subComponents)
-          };
-        }
-      }
+export function renderPrimitiveImport(primitive: PrimitiveData): string {
+  switch (primitive.importStyle) {
+    case 'default':
+      return `import type ${primitive.name} from "${primitive.package}";`;
+    case 'named': {
+      const importedName = primitive.importedName || primitive.name;
+      const specifier = importedName === primitive.name ? importedName : `${importedName} as ${primitive.name}`;
+      return `import type { ${specifier} } from "${primitive.package}";`;
     }
-    
-    return null;
-  } catch (error) {
-    debug('Error extracting primitive imports:', error);
-    return null;
+    default:
+      return `import type * as ${primitive.name} from "${primitive.package}";`;
   }
 }
 
+/**
+ * Whether an import source can provide primitives
+ * Relative files, path aliases and utility packages are skipped
+ */
+function isPrimitivePackage(source: string): boolean {
+  // Compare the package itself for subpath imports such as react-dom/client
+  const packageName = getPackageName(source);
+  return !!packageName && !NON_PRIMITIVE_PACKAGES.includes(packageName);
+}
+
+/**
+ * Read every value binding of an import declaration as a primitive
+ * Handles import * as X, import { X }, import { X as Y } and import X; type-only imports are props types, not primitives
+ */
+function getImportedPrimitives(node: ts.ImportDeclaration, packageName: string): PrimitiveData[] {
+  const importClause = node.importClause;
+  const primitives: PrimitiveData[] = [];
+  if (!importClause || importClause.isTypeOnly) {
+    return primitives;
+  }
+  
+  if (importClause.name) {
+    primitives.push({
+      name: importClause.name.text,
+      package: packageName,
+      importStyle: 'default',
+      subComponents: []
+    });
+  }
+  
+  const namedBindings = importClause.namedBindings;
+  if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+    primitives.push({
+      name: namedBindings.name.text,
+      package: packageName,
+      importStyle: 'namespace',
+      subComponents: []
+    });
+  } else if (namedBindings && ts.isNamedImports(namedBindings)) {
+    namedBindings.elements.filter(element => !element.isTypeOnly).forEach(element => {
+      primitives.push({
+        name: element.name.text,
+        importedName: (element.propertyName || element.name).text,
+        package: packageName,
+        importStyle: 'named',
+        subComponents: []
+      });
+    });
+  }
+  
+  return primitives;
+}
+
 /**
  * Analyze component with TypeScript for deeper inspection
  */
-function analyzeWithTypeScript(content: string, componentName: string): PrimitiveData | null {
+function analyzeWithTypeScript(content: string, componentName: string): PrimitiveData[] {
   try {
     const sourceFile = ts.createSourceFile(
       `${componentName}.tsx`,
@@ -124,9 +175,9 @@ function analyzeWithTypeScript(content: string, componentName: string): Primitiv
       true
     );
     
-    let primitiveData: PrimitiveData | null = null;
+    const primitives: PrimitiveData[] = [];
     
-    // Visit the TypeScript AST to find imports and usages
+    // Visit the TypeScript AST to find imports
     ts.forEachChild(sourceFile, node => {
       // Check import declarations
       if (ts.isImportDeclaration(node)) {
@@ -135,43 +186,37 @@ function analyzeWithTypeScript(content: string, componentName: string): Primitiv
         if (ts.isStringLiteral(moduleSpecifier)) {
           const packageName = moduleSpecifier.text;
           
-          if (packageName.includes('@radix-ui/react-') || 
-              packageName === 'cmdk' || 
-              packageName === 'react-day-picker') {
-            
-            // Check if this is a namespace import
-            if (node.importClause?.namedBindings && 
-                ts.isNamespaceImport(node.importClause.namedBindings)) {
-              const primitiveName = node.importClause.namedBindings.name.text;
-              
-              if (primitiveName.includes('Primitive')) {
-                primitiveData = {
-                  name: primitiveName,
-                  package: packageName,
-                  subComponents: []
-                };
-              }
-            }
+          if (isPrimitivePackage(packageName)) {
+            primitives.push(...getImportedPrimitives(node, packageName));
           }
         }
       }
+    });
+    
+    // Look for usages of each primitive to find its sub-components
+    const byName = new Map(primitives.map(primitive => [primitive.name, primitive]));
+    const visit = (node: ts.Node): void => {
+      // DrawerPrimitive.Content in code and JSX, or typeof DrawerPrimitive.Content in types
+      const access = ts.isPropertyAccessExpression(node) ? { target: node.expression, member: node.name }
+        : ts.isQualifiedName(node) ? { target: node.left, member: node.right }
+        : null;
       
-      // Look for primitive usages to find sub-components
-      if (primitiveData && ts.isPropertyAccessExpression(node)) {
-        const expression = node.expression;
-        if (ts.isIdentifier(expression) && expression.text === primitiveData.name) {
-          const propertyName = node.name.text;
-          if (!primitiveData.subComponents.includes(propertyName) &&
-              !['displayName', 'propTypes', 'defaultProps'].includes(propertyName)) {
-            primitiveData.subComponents.push(propertyName);
-          }
+      if (access && ts.isIdentifier(access.target)) {
+        const primitive = byName.get(access.target.text);
+        const propertyName = access.member.text;
+        if (primitive && 
+            !primitive.subComponents.includes(propertyName) &&
+            !IGNORED_MEMBERS.includes(propertyName)) {
+          primitive.subComponents.push(propertyName);
         }
       }
-    });
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
     
-    return primitiveData;
+    return primitives;
   } catch (error) {
     debug('Error analyzing with TypeScript:', error);
-    return null;
+    return [];
   }
 }
\ No newline at end of file
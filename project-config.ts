@@ -0,0 +1,145 @@
+/**
+ * Project-level configuration loaded with cosmiconfig
+ * Searched as .shadcn-propsrc(.json|.yaml|.js|.ts), shadcn-props.config.(js|ts) or the "shadcn-props" key of package.json
+ */
+
+import path from 'path';
+import { cosmiconfig } from 'cosmiconfig';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:config');
+
+export const CONFIG_MODULE_NAME = 'shadcn-props';
+
+export interface ProjectConfig {
+  // Directory generated files are written to
+  outDir?: string;
+  // File name template of the props file (e.g., {Pascal}Props.ts, {kebab}.props.ts)
+  fileName?: string;
+  // Write an index.ts to outDir that re-exports every props file
+  barrel?: boolean;
+  // Additional output formats (json-schema, zod)
+  formats?: string[];
+  // Package manager to install with (npm, yarn, pnpm, bun)
+  packageManager?: string;
+  // SQLite database extracted components are saved to
+  database?: string;
+  timeouts?: {
+    // Whole extraction of one component (ms)
+    operation?: number;
+    // Each install command of one component: the shadcn CLI and its dependencies (ms)
+    install?: number;
+  };
+  // registry.json, registry item JSON or directory to load component definitions from
+  registrySource?: string;
+  // Emitted type names to replace (e.g., { "ButtonProps": "ShadcnButtonProps" })
+  typeNames?: Record<string, string>;
+}
+
+export interface LoadedConfig {
+  config: ProjectConfig;
+  // File the configuration was read from
+  filepath: string;
+}
+
+// Options that hold paths, resolved against the directory of the config file
+const PATH_KEYS = ['outDir', 'database', 'registrySource'] as const;
+
+const STRING_KEYS = ['outDir', 'fileName', 'packageManager', 'database', 'registrySource'] as const;
+
+/**
+ * Check that a replacement type name is a valid identifier
+ */
+export function isTypeName(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * Check the shape of a loaded configuration, naming the file and key on failure
+ */
+function validateConfig(value: unknown, filepath: string): ProjectConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid ${filepath}: expected an object`);
+  }
+
+  const config = value as Record<string, unknown>;
+  const invalid = (key: string, expected: string): Error => new Error(`Invalid ${filepath}: "${key}" must be ${expected}`);
+
+  STRING_KEYS.forEach(key => {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      throw invalid(key, 'a string');
+    }
+  });
+
+  if (config.barrel !== undefined && typeof config.barrel !== 'boolean') {
+    throw invalid('barrel', 'true or false');
+  }
+
+  const { formats, timeouts, typeNames } = config;
+  if (formats !== undefined && (!Array.isArray(formats) || formats.some(format => typeof format !== 'string'))) {
+    throw invalid('formats', 'an array of strings');
+  }
+
+  if (timeouts !== undefined) {
+    if (typeof timeouts !== 'object' || timeouts === null) {
+      throw invalid('timeouts', 'an object');
+    }
+    Object.entries(timeouts).forEach(([key, timeout]) => {
+      if (typeof timeout !== 'number' || timeout <= 0) {
+        throw invalid(`timeouts.${key}`, 'a positive number of milliseconds');
+      }
+    });
+  }
+
+  if (typeNames !== undefined) {
+    if (typeof typeNames !== 'object' || typeNames === null || Array.isArray(typeNames)) {
+      throw invalid('typeNames', 'an object mapping type names to new names');
+    }
+    Object.entries(typeNames).forEach(([from, to]) => {
+      if (typeof to !== 'string' || !isTypeName(to)) {
+        throw invalid(`typeNames.${from}`, 'a valid identifier');
+      }
+    });
+  }
+
+  const known = [...STRING_KEYS, 'barrel', 'formats', 'timeouts', 'typeNames'];
+  Object.keys(config)
+    .filter(key => !(known as string[]).includes(key))
+    .forEach(key => debug(`Ignoring unknown option "${key}" in ${filepath}`));
+
+  return config as ProjectConfig;
+}
+
+/**
+ * Load the project configuration, from an explicit file or by searching up from the current directory
+ * Returns null when no configuration exists
+ */
+export async function loadProjectConfig(configPath?: string): Promise<LoadedConfig | null> {
+  const explorer = cosmiconfig(CONFIG_MODULE_NAME);
+
+  let result;
+  try {
+    result = configPath ? await explorer.load(path.resolve(configPath)) : await explorer.search();
+  } catch (error) {
+    throw new Error(`Could not load ${CONFIG_MODULE_NAME} config: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!result || result.isEmpty) {
+    debug('No project configuration found');
+    return null;
+  }
+
+  const config = validateConfig(result.config, result.filepath);
+
+  // Paths mean the same thing wherever the extractor is run from
+  const configDir = path.dirname(result.filepath);
+  PATH_KEYS.forEach(key => {
+    const value = config[key];
+    if (value) {
+      config[key] = path.resolve(configDir, value);
+    }
+  });
+
+  debug(`Loaded configuration from ${result.filepath}`);
+  return { config, filepath: result.filepath };
+}
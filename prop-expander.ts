@@ -0,0 +1,277 @@
+/**
+ * Expands props types into their complete member lists using the TypeScript type checker
+ * This resolves aliases like React.ComponentProps<typeof AccordionPrimitive.Item>
+ * against the installed Radix/cmdk typings
+ */
+
+import { Node, Symbol as MorphSymbol, Type, TypeFormatFlags, ts } from 'ts-morph';
+import Debug from 'debug';
+import * as R from 'ramda';
+
+const debug = Debug('shadcn:expand');
+
+// Flags used when printing member types so they stay readable and untruncated
+// Aliases the location cannot reach (e.g., Booleanish in @types/react) are printed as their resolved type
+const TYPE_FORMAT_FLAGS = TypeFormatFlags.NoTruncation |
+  TypeFormatFlags.WriteArrowStyleSignature;
+
+/**
+ * Broad category of a prop's value, used by schema generators
+ */
+export type PropValueKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'enum'
+  | 'array'
+  | 'function'
+  | 'react-node'
+  | 'object'
+  | 'unknown';
+
+export interface ExpandedPropMember {
+  /**
+   * Name of the prop (e.g., value, onValueChange)
+   */
+  name: string;
+
+  /**
+   * Type text as resolved by the type checker
+   */
+  type: string;
+
+  /**
+   * Whether the prop is optional
+   */
+  optional: boolean;
+
+  /**
+   * Interface or type the prop is declared on (e.g., AccordionItemProps, HTMLAttributes)
+   */
+  inheritedFrom: string | null;
+
+  /**
+   * Package or file that declares the prop (e.g., @radix-ui/react-accordion)
+   */
+  declaredIn: string | null;
+
+  /**
+   * Category of the prop's value
+   */
+  kind: PropValueKind;
+
+  /**
+   * Allowed literal values when the type is a literal union
+   */
+  enumValues?: Array<string | number | boolean>;
+
+  /**
+   * JSDoc description from the declaring typings
+   */
+  description?: string;
+
+  /**
+   * Default value from the component's parameter destructuring, as source text
+   */
+  defaultValue?: string;
+}
+
+export interface ExpandedPropsType {
+  /**
+   * Name of the emitted props type (e.g., AccordionItemProps)
+   */
+  name: string;
+
+  /**
+   * Every member of the resolved type
+   */
+  members: ExpandedPropMember[];
+}
+
+/**
+ * Resolve a props type node to its full list of members
+ */
+export function expandPropsType(node: Node, typeName: string): ExpandedPropsType | null {
+  try {
+    const type = node.getType();
+    const members: ExpandedPropMember[] = type.isUnion()
+      ? describeUnionMembers(type, node)
+      : type.getProperties().map(prop => describeMember(prop, node));
+
+    if (members.length === 0) {
+      debug(`No members resolved for ${typeName}; typings may not be installed`);
+      return null;
+    }
+
+    return { name: typeName, members };
+  } catch (error) {
+    debug(`Error expanding ${typeName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Describe the members of every branch of a union props type (e.g., the single/multiple Accordion root)
+ * getProperties() only returns the members all branches share; the others are optional
+ */
+function describeUnionMembers(type: Type, location: Node): ExpandedPropMember[] {
+  const branches = type.getUnionTypes();
+  const names: string[] = [];
+  branches.forEach(branch => branch.getProperties().forEach(prop => {
+    if (!names.includes(prop.getName())) names.push(prop.getName());
+  }));
+
+  return names.map(name => {
+    // Shared members resolve to the union of their types in each branch
+    const shared = type.getProperty(name);
+    if (shared) return describeMember(shared, location);
+
+    const described = branches
+      .map(branch => branch.getProperty(name))
+      .filter((prop): prop is MorphSymbol => !!prop)
+      .map(prop => describeMember(prop, location));
+    const types = R.uniq(described.map(member => member.type));
+    if (types.length === 1) return { ...described[0], optional: true };
+
+    // Branches that type the member differently are combined into one union
+    const kinds = R.uniq(described.map(member => member.kind));
+    const member: ExpandedPropMember = {
+      ...R.omit(['enumValues'], described[0]),
+      // Function types need parentheses inside a union
+      type: types.map(text => text.includes('=>') ? `(${text})` : text).join(' | '),
+      optional: true,
+      kind: kinds.length === 1 ? kinds[0] : 'unknown'
+    };
+    return member.kind === 'enum'
+      ? { ...member, enumValues: R.uniq(R.unnest(described.map(branch => branch.enumValues || []))) }
+      : member;
+  });
+}
+
+/**
+ * Describe a single property symbol of a resolved props type
+ */
+function describeMember(prop: MorphSymbol, location: Node): ExpandedPropMember {
+  const declaration = prop.getDeclarations()[0];
+  const propType = prop.getTypeAtLocation(location);
+  const typeText = propType.getText(location, TYPE_FORMAT_FLAGS);
+  const { kind, enumValues } = classifyType(propType, typeText);
+  const description = getDescription(prop, location);
+
+  return {
+    name: prop.getName(),
+    type: typeText,
+    optional: prop.isOptional(),
+    inheritedFrom: declaration ? getDeclaringTypeName(declaration) : null,
+    declaredIn: declaration ? getDeclaringModule(declaration) : null,
+    kind,
+    ...(enumValues ? { enumValues } : {}),
+    ...(description ? { description } : {})
+  };
+}
+
+/**
+ * Work out the broad value category of a prop type
+ */
+function classifyType(type: Type, typeText: string): { kind: PropValueKind; enumValues?: Array<string | number | boolean> } {
+  // ReactNode and friends are unions too, so check them by name first
+  if (/\bReact(Node|Element|Portal)\b|\bJSX\.Element\b/.test(typeText)) {
+    return { kind: 'react-node' };
+  }
+
+  const nonNullable = type.getNonNullableType();
+  if (nonNullable.isBoolean()) return { kind: 'boolean' };
+  if (nonNullable.isString()) return { kind: 'string' };
+  if (nonNullable.isNumber()) return { kind: 'number' };
+
+  const parts = nonNullable.isUnion() ? nonNullable.getUnionTypes() : [nonNullable];
+  if (parts.every(part => part.isLiteral() || part.isBooleanLiteral())) {
+    const enumValues = parts.map(part => part.isBooleanLiteral()
+      ? part.getText() === 'true'
+      : part.getLiteralValue() as string | number);
+    return { kind: 'enum', enumValues };
+  }
+
+  if (parts.every(part => part.getCallSignatures().length > 0)) return { kind: 'function' };
+  if (nonNullable.isArray()) return { kind: 'array' };
+  if (nonNullable.isObject() && !nonNullable.isUnion()) return { kind: 'object' };
+
+  return { kind: 'unknown' };
+}
+
+/**
+ * Read the JSDoc description of a prop from its declaring typings
+ */
+function getDescription(prop: MorphSymbol, location: Node): string | undefined {
+  const checker = location.getProject().getTypeChecker().compilerObject;
+  const text = ts.displayPartsToString(prop.compilerSymbol.getDocumentationComment(checker)).trim();
+  return text || undefined;
+}
+
+/**
+ * Find the name of the interface or type alias that declares a member
+ */
+function getDeclaringTypeName(declaration: Node): string | null {
+  const owner = declaration.getFirstAncestor(ancestor =>
+    Node.isInterfaceDeclaration(ancestor) || Node.isTypeAliasDeclaration(ancestor)
+  );
+
+  if (Node.isInterfaceDeclaration(owner) || Node.isTypeAliasDeclaration(owner)) {
+    return owner.getName();
+  }
+
+  return null;
+}
+
+/**
+ * Map a declaration to the npm package (or local file) that contains it
+ */
+function getDeclaringModule(declaration: Node): string | null {
+  const filePath = declaration.getSourceFile().getFilePath();
+  const match = filePath.match(/node_modules\/((?:@[^/]+\/)?[^/]+)/g);
+
+  if (!match) {
+    return filePath.split('/').pop() || null;
+  }
+
+  // Use the innermost node_modules package and map @types/* back to the runtime package
+  const packageName = match[match.length - 1].replace('node_modules/', '');
+  if (packageName.startsWith('@types/')) {
+    const typesName = packageName.slice('@types/'.length);
+    return typesName.includes('__') ? `@${typesName.replace('__', '/')}` : typesName;
+  }
+
+  return packageName;
+}
+
+/**
+ * Render one member with its description, origin and default as JSDoc
+ */
+export function renderMember(member: ExpandedPropMember): string {
+  const source = [member.inheritedFrom, member.declaredIn && `(${member.declaredIn})`]
+    .filter(Boolean)
+    .join(' ');
+  const docLines = [
+    ...(member.description ? member.description.split('\n') : []),
+    ...(source ? [`Inherited from ${source}`] : []),
+    ...(member.defaultValue !== undefined ? [`@default ${member.defaultValue}`] : [])
+  ];
+
+  // Keep the single-line form when there is only one line to show
+  const comment = docLines.length === 0 ? ''
+    : docLines.length === 1 ? `  /** ${docLines[0]} */\n`
+    : `  /**\n${docLines.map(line => `   * ${line}`.replace(/\s+$/, '')).join('\n')}\n   */\n`;
+  const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(member.name) ? member.name : `'${member.name}'`;
+
+  return `${comment}  ${key}${member.optional ? '?' : ''}: ${member.type};`;
+}
+
+/**
+ * Render an expanded props type as an interface with one documented member per prop
+ */
+export function renderExpandedInterface(expanded: ExpandedPropsType): string {
+  return `// Expanded from resolved type
+export interface ${expanded.name} {
+${expanded.members.map(renderMember).join('\n')}
+}`;
+}
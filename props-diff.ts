@@ -0,0 +1,221 @@
+/**
+ * Compares two generated props files and classifies every API change
+ * Used to gate shadcn upgrades on breaking prop changes
+ */
+
+import { Node, SourceFile } from 'ts-morph';
+import Debug from 'debug';
+import { expandPropsType } from './prop-expander';
+
+const debug = Debug('shadcn:diff');
+
+export type PropsChangeKind =
+  | 'type-added'
+  | 'type-removed'
+  | 'prop-added'
+  | 'prop-removed'
+  | 'became-required'
+  | 'became-optional'
+  | 'type-narrowed'
+  | 'type-widened'
+  | 'type-changed';
+
+export interface PropsChange {
+  kind: PropsChangeKind;
+  // Props type the change belongs to (e.g., AccordionItemProps)
+  typeName: string;
+  // Affected prop, absent for whole-type changes
+  prop?: string;
+  before?: string;
+  after?: string;
+  // Whether existing callers can break
+  breaking: boolean;
+}
+
+interface MemberSnapshot {
+  type: string;
+  optional: boolean;
+  enumValues?: Array<string | number | boolean>;
+}
+
+interface TypeSnapshot {
+  // Resolved members, or null for non-object types and unresolved typings
+  members: Map<string, MemberSnapshot> | null;
+  // Declared type text, compared when members are unavailable
+  text: string;
+}
+
+export type PropsSnapshot = Map<string, TypeSnapshot>;
+
+/**
+ * Capture every top-level type alias and interface in a generated props file
+ */
+export function snapshotPropsTypes(sourceFile: SourceFile): PropsSnapshot {
+  const snapshot: PropsSnapshot = new Map();
+  const declarations = [...sourceFile.getTypeAliases(), ...sourceFile.getInterfaces()];
+
+  declarations.forEach(declaration => {
+    const name = declaration.getName();
+    // Literal unions such as ButtonVariant are compared by value, not by their string members
+    const type = declaration.getType();
+    const expanded = type.isObject() || type.isIntersection() ? expandPropsType(declaration, name) : null;
+    const text = Node.isTypeAliasDeclaration(declaration)
+      ? declaration.getTypeNode()?.getText() || ''
+      : declaration.getText();
+
+    snapshot.set(name, {
+      members: expanded
+        ? new Map(expanded.members.map(member => [member.name, {
+            type: member.type,
+            optional: member.optional,
+            ...(member.enumValues ? { enumValues: member.enumValues } : {})
+          }]))
+        : null,
+      text
+    });
+  });
+
+  debug(`Snapshot of ${sourceFile.getBaseName()}: ${[...snapshot.keys()].join(', ')}`);
+  return snapshot;
+}
+
+/**
+ * Split a type into its top-level union members
+ */
+function splitUnion(type: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of type) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('<([{'.includes(char)) {
+      depth++;
+    } else if ('>)]}'.includes(char) && !(char === '>' && current.endsWith('='))) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+
+  return parts.filter(Boolean);
+}
+
+/**
+ * Compare two sets of accepted values
+ */
+function compareValues(before: string[], after: string[]): 'same' | 'narrowed' | 'widened' | 'changed' {
+  const removed = before.filter(value => !after.includes(value));
+  const added = after.filter(value => !before.includes(value));
+
+  if (removed.length === 0 && added.length === 0) return 'same';
+  if (added.length === 0) return 'narrowed';
+  if (removed.length === 0) return 'widened';
+  return 'changed';
+}
+
+/**
+ * Accepted values of a member, as literal values or union member texts
+ */
+function getValues(member: MemberSnapshot): string[] {
+  return member.enumValues
+    ? member.enumValues.map(value => JSON.stringify(value))
+    : splitUnion(member.type).filter(part => part !== 'undefined');
+}
+
+/**
+ * Classify a change of accepted values, or null when the values are the same
+ */
+function classifyValueChange(before: string[], after: string[]): { kind: PropsChangeKind; breaking: boolean } | null {
+  switch (compareValues(before, after)) {
+    case 'narrowed':
+      return { kind: 'type-narrowed', breaking: true };
+    case 'widened':
+      return { kind: 'type-widened', breaking: false };
+    case 'changed':
+      return { kind: 'type-changed', breaking: true };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classify the changes of one prop between two snapshots
+ */
+function compareMember(typeName: string, prop: string, before: MemberSnapshot, after: MemberSnapshot): PropsChange[] {
+  const changes: PropsChange[] = [];
+
+  if (before.optional && !after.optional) {
+    changes.push({ kind: 'became-required', typeName, prop, breaking: true });
+  } else if (!before.optional && after.optional) {
+    changes.push({ kind: 'became-optional', typeName, prop, breaking: false });
+  }
+
+  if (before.type !== after.type) {
+    const valueChange = classifyValueChange(getValues(before), getValues(after));
+    if (valueChange) {
+      changes.push({ kind: valueChange.kind, typeName, prop, before: before.type, after: after.type, breaking: valueChange.breaking });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Classify every change between two props snapshots
+ */
+export function compareSnapshots(before: PropsSnapshot, after: PropsSnapshot): PropsChange[] {
+  const changes: PropsChange[] = [];
+
+  before.forEach((beforeType, typeName) => {
+    const afterType = after.get(typeName);
+    if (!afterType) {
+      changes.push({ kind: 'type-removed', typeName, breaking: true });
+      return;
+    }
+
+    // Without resolved members only the declared text can be compared
+    if (!beforeType.members || !afterType.members) {
+      const valueChange = beforeType.text !== afterType.text 
+        ? classifyValueChange(splitUnion(beforeType.text), splitUnion(afterType.text))
+        : null;
+      if (valueChange) {
+        changes.push({ kind: valueChange.kind, typeName, before: beforeType.text, after: afterType.text, breaking: valueChange.breaking });
+      }
+      return;
+    }
+
+    const afterMembers = afterType.members;
+    beforeType.members.forEach((member, prop) => {
+      const afterMember = afterMembers.get(prop);
+      if (!afterMember) {
+        changes.push({ kind: 'prop-removed', typeName, prop, before: member.type, breaking: true });
+      } else {
+        changes.push(...compareMember(typeName, prop, member, afterMember));
+      }
+    });
+
+    afterMembers.forEach((member, prop) => {
+      if (!beforeType.members?.has(prop)) {
+        // New required props break callers that do not pass them
+        changes.push({ kind: 'prop-added', typeName, prop, after: member.type, breaking: !member.optional });
+      }
+    });
+  });
+
+  after.forEach((_, typeName) => {
+    if (!before.has(typeName)) {
+      changes.push({ kind: 'type-added', typeName, breaking: false });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,156 @@
+/**
+ * Type-checks a generated props file before it is written
+ * Missing imports can be taken from the component files or found by the language service
+ */
+
+import { DiagnosticCategory, Project, SourceFile, ts } from 'ts-morph';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:validate');
+
+// Cannot find name / namespace, with and without a "did you mean" suggestion
+const MISSING_NAME_CODES = [2304, 2503, 2552];
+
+export interface PropsDiagnostic {
+  line: number;
+  column: number;
+  // TypeScript error code (e.g., 2304 for "Cannot find name")
+  code: number;
+  message: string;
+}
+
+export interface PropsValidation {
+  // Generated text, with any imports that were added
+  text: string;
+  diagnostics: PropsDiagnostic[];
+  // Import statements added to make the file compile
+  addedImports: string[];
+}
+
+export interface ValidationOptions {
+  // Add imports for names the file uses but does not import
+  fixImports?: boolean;
+  // Component files whose package imports are reused for missing names
+  importSources?: SourceFile[];
+}
+
+/**
+ * Errors TypeScript reports for a file, with 1-based line and column numbers
+ */
+function getDiagnostics(sourceFile: SourceFile): PropsDiagnostic[] {
+  return sourceFile.getPreEmitDiagnostics()
+    .filter(diagnostic => diagnostic.getCategory() === DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const start = diagnostic.getStart() || 0;
+      const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+      const messageText = diagnostic.getMessageText();
+      return {
+        line: diagnostic.getLineNumber() || line,
+        column,
+        code: diagnostic.getCode(),
+        message: typeof messageText === 'string'
+          ? messageText
+          : ts.flattenDiagnosticMessageText(messageText.compilerObject, '\n')
+      };
+    });
+}
+
+/**
+ * Name a "Cannot find name 'X'" diagnostic refers to
+ */
+function getMissingName(diagnostic: PropsDiagnostic): string | null {
+  if (!MISSING_NAME_CODES.includes(diagnostic.code)) return null;
+  const match = diagnostic.message.match(/'([A-Za-z_$][\w$]*)'/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Package import of a single name as the component files write it, made type-only
+ */
+function findImportFor(name: string, sources: SourceFile[]): string | null {
+  for (const source of sources) {
+    for (const declaration of source.getImportDeclarations()) {
+      const specifier = declaration.getModuleSpecifierValue();
+      // Relative paths would not resolve from the generated file
+      if (specifier.startsWith('.')) continue;
+
+      if (declaration.getNamespaceImport()?.getText() === name) {
+        return `import type * as ${name} from "${specifier}";`;
+      }
+      if (declaration.getDefaultImport()?.getText() === name) {
+        return `import type ${name} from "${specifier}";`;
+      }
+
+      const named = declaration.getNamedImports()
+        .find(element => (element.getAliasNode()?.getText() || element.getName()) === name);
+      if (named) {
+        const binding = named.getName() === name ? name : `${named.getName()} as ${name}`;
+        return `import type { ${binding} } from "${specifier}";`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Insert import statements after the existing imports
+ */
+function insertImports(sourceFile: SourceFile, statements: string[]): void {
+  const index = sourceFile.getImportDeclarations().length === 0
+    ? 0
+    : sourceFile.getImportDeclarations().slice(-1)[0].getChildIndex() + 1;
+  sourceFile.insertStatements(index, statements);
+}
+
+/**
+ * Type-check generated props text as the file it will be saved as
+ * The file only exists in the project while it is checked, so imports resolve against the real node_modules
+ */
+export function validatePropsText(project: Project, filePath: string, text: string, options: ValidationOptions = {}): PropsValidation {
+  const sourceFile = project.createSourceFile(filePath, text, { overwrite: true });
+
+  try {
+    let diagnostics = getDiagnostics(sourceFile);
+    const addedImports: string[] = [];
+
+    if (options.fixImports && diagnostics.length > 0) {
+      const missingNames = [...new Set(diagnostics.map(getMissingName).filter((name): name is string => !!name))];
+      const statements = missingNames
+        .map(name => findImportFor(name, options.importSources || []))
+        .filter((statement): statement is string => !!statement);
+
+      if (statements.length > 0) {
+        insertImports(sourceFile, statements);
+        addedImports.push(...statements);
+      }
+
+      // Names the component files do not import, e.g. types of packages the file already uses
+      const before = sourceFile.getImportDeclarations().map(declaration => declaration.getText());
+      try {
+        sourceFile.fixMissingImports();
+      } catch (error) {
+        debug('Could not fix missing imports:', error);
+      }
+      sourceFile.getImportDeclarations()
+        .map(declaration => declaration.getText())
+        .filter(statement => !before.includes(statement))
+        .forEach(statement => addedImports.push(statement));
+
+      if (addedImports.length > 0) {
+        debug(`Added imports to ${sourceFile.getBaseName()}: ${addedImports.join(' ')}`);
+        diagnostics = getDiagnostics(sourceFile);
+      }
+    }
+
+    return { text: sourceFile.getFullText(), diagnostics, addedImports };
+  } finally {
+    project.removeSourceFile(sourceFile);
+  }
+}
+
+/**
+ * Format a diagnostic as "line:column message (TSxxxx)"
+ */
+export function formatDiagnostic(diagnostic: PropsDiagnostic): string {
+  return `${diagnostic.line}:${diagnostic.column} ${diagnostic.message} (TS${diagnostic.code})`;
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getComponentDependencies, getRegisteredComponentNames, loadRegistry } from '../component-registry';
+
+test('registry directories skip package.json and other non-item JSON', async () => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'shadcn-registry-'));
+
+  try {
+    await fs.writeFile(path.join(directory, 'package.json'), JSON.stringify({
+      name: 'ui-checkout',
+      dependencies: { react: '^19.0.0' }
+    }));
+    await fs.writeFile(path.join(directory, 'tsconfig.json'), JSON.stringify({ compilerOptions: {} }));
+    await fs.writeFile(path.join(directory, 'toggle.json'), JSON.stringify({
+      $schema: 'https://ui.shadcn.com/schema/registry-item.json',
+      name: 'toggle',
+      type: 'registry:ui',
+      dependencies: ['@radix-ui/react-toggle'],
+      files: [{ path: 'ui/toggle.tsx', type: 'registry:ui' }]
+    }));
+
+    assert.equal(await loadRegistry(directory), 1);
+    assert.equal(getRegisteredComponentNames().includes('ui-checkout'), false);
+    assert.equal(getComponentDependencies('toggle')?.package, '@radix-ui/react-toggle');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+});
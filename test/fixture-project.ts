@@ -0,0 +1,39 @@
+/**
+ * In-memory ts-morph project with the shadcn component fixtures and stand-ins for their typings
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Project, SourceFile, ts } from 'ts-morph';
+
+// Fixture typings and the node_modules path they are served from
+const TYPINGS: Record<string, string> = {
+  'react.d.ts': '/node_modules/@types/react/index.d.ts',
+  'react-accordion.d.ts': '/node_modules/@radix-ui/react-accordion/index.d.ts'
+};
+
+export function readFixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+export function createFixtureProject(): Project {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: {
+      strict: true,
+      jsx: ts.JsxEmit.Preserve,
+      esModuleInterop: true,
+      lib: ['lib.es2018.d.ts', 'lib.dom.d.ts']
+    }
+  });
+
+  Object.keys(TYPINGS).forEach(name => project.getFileSystem().writeFileSync(TYPINGS[name], readFixture(name)));
+  return project;
+}
+
+/**
+ * Add a component fixture as components/ui/<name>
+ */
+export function addComponent(project: Project, name: string): SourceFile {
+  return project.createSourceFile(`/components/ui/${name}`, readFixture(name));
+}
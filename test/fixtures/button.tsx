@@ -0,0 +1,13 @@
+import * as React from 'react';
+
+function Button({
+  className,
+  asChild = false,
+  ...props
+}: React.ComponentProps<'button'> & {
+  asChild?: boolean;
+}) {
+  return <button className={className} {...props} />;
+}
+
+export { Button };
@@ -0,0 +1,33 @@
+// Stand-in for the parts of @radix-ui/react-accordion the accordion fixture uses
+import * as React from 'react';
+
+// Module-private like in @radix-ui/react-direction
+type Direction = 'ltr' | 'rtl';
+
+interface AccordionImplProps extends React.HTMLAttributes<HTMLDivElement> {
+  disabled?: boolean;
+  dir?: Direction;
+  orientation?: 'horizontal' | 'vertical';
+}
+
+interface AccordionSingleProps extends AccordionImplProps {
+  type: 'single';
+  value?: string;
+  onValueChange?(value: string): void;
+  /**
+   * Whether an accordion item can be collapsed after it has been opened.
+   */
+  collapsible?: boolean;
+}
+
+interface AccordionMultipleProps extends AccordionImplProps {
+  type: 'multiple';
+  value?: string[];
+  onValueChange?(value: string[]): void;
+}
+
+declare const Accordion: React.ForwardRefExoticComponent<(AccordionSingleProps | AccordionMultipleProps) & React.RefAttributes<HTMLDivElement>>;
+declare const Root: typeof Accordion;
+
+export { Accordion, Root };
+export type { AccordionSingleProps, AccordionMultipleProps };
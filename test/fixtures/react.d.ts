@@ -0,0 +1,65 @@
+// Stand-in for the parts of @types/react the shadcn fixtures use
+export = React;
+export as namespace React;
+
+// Module-private like in @types/react, so generated files cannot name it
+type Booleanish = boolean | 'true' | 'false';
+
+declare namespace React {
+  type ReactNode = ReactElement | string | number | boolean | null | undefined;
+
+  interface ReactElement {
+    type: unknown;
+    props: unknown;
+  }
+
+  interface RefObject<T> {
+    current: T | null;
+  }
+
+  interface RefAttributes<T> {
+    ref?: ((instance: T | null) => void) | RefObject<T> | null;
+  }
+
+  interface ForwardRefExoticComponent<P> {
+    (props: P): ReactElement | null;
+    displayName?: string;
+  }
+
+  type JSXElementConstructor<P> = (props: P) => ReactElement | null;
+
+  type ComponentProps<T extends keyof JSX.IntrinsicElements | JSXElementConstructor<any>> =
+    T extends JSXElementConstructor<infer P> ? P
+      : T extends keyof JSX.IntrinsicElements ? JSX.IntrinsicElements[T]
+      : {};
+
+  interface AriaAttributes {
+    'aria-busy'?: Booleanish;
+    'aria-disabled'?: Booleanish;
+  }
+
+  interface HTMLAttributes<T> extends AriaAttributes {
+    children?: ReactNode;
+    className?: string;
+    contentEditable?: Booleanish | 'inherit' | 'plaintext-only';
+    dir?: string;
+    draggable?: Booleanish;
+    onClick?: (event: { currentTarget: T }) => void;
+  }
+
+  interface ButtonHTMLAttributes<T> extends HTMLAttributes<T> {
+    disabled?: boolean;
+    type?: 'submit' | 'reset' | 'button';
+  }
+}
+
+declare global {
+  namespace JSX {
+    interface Element extends React.ReactElement {}
+
+    interface IntrinsicElements {
+      button: React.ButtonHTMLAttributes<HTMLButtonElement> & React.RefAttributes<HTMLButtonElement>;
+      div: React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement>;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Project } from 'ts-morph';
+import { propsTypeToSchema, variantsToSchema } from '../json-schema-generator';
+import { extractVariants } from '../variant-extractor';
+
+test('variants whose values cannot be read accept any string', () => {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile('/components/ui/button.tsx', `
+    import { cva } from 'class-variance-authority';
+
+    const buttonVariants = cva('inline-flex', {
+      variants: {
+        variant: { default: 'bg-primary', outline: 'border' },
+        size: getSizes()
+      },
+      defaultVariants: { variant: 'default' }
+    });
+  `);
+
+  const [definition] = extractVariants(sourceFile);
+  assert.deepEqual(definition.variants.size, []);
+
+  const { properties = {} } = variantsToSchema(definition);
+  assert.equal(properties.size.type, 'string');
+  assert.equal(properties.size.enum, undefined);
+  assert.deepEqual(properties.variant.enum, ['default', 'outline']);
+});
+
+test('enum members without values get no enum', () => {
+  const schema = propsTypeToSchema({
+    name: 'ButtonProps',
+    members: [{ name: 'size', type: 'Size', optional: true, inheritedFrom: null, declaredIn: null, kind: 'enum', enumValues: [] }]
+  });
+
+  assert.deepEqual(schema.properties?.size, { tsType: 'Size' });
+});
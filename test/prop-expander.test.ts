@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Node } from 'ts-morph';
+import { expandPropsType, renderExpandedInterface } from '../prop-expander';
+import { validatePropsText } from '../props-validator';
+import { addComponent, createFixtureProject } from './fixture-project';
+
+/**
+ * Props type node of the first parameter of a component function
+ */
+function getPropsNode(sourceFile: ReturnType<typeof addComponent>, component: string): Node {
+  return sourceFile.getFunctionOrThrow(component).getParameters()[0].getTypeNodeOrThrow();
+}
+
+test('expanded Button props type-check in the generated file', () => {
+  const project = createFixtureProject();
+  const button = addComponent(project, 'button.tsx');
+
+  const expanded = expandPropsType(getPropsNode(button, 'Button'), 'ButtonProps');
+  assert.ok(expanded);
+
+  const text = `import * as React from 'react';\n\n${renderExpandedInterface(expanded)}\n`;
+  const { diagnostics } = validatePropsText(project, '/ButtonProps.ts', text);
+
+  assert.deepEqual(diagnostics, []);
+  // Booleanish is private to @types/react, so its resolved union is written instead
+  assert.doesNotMatch(text, /Booleanish/);
+  assert.equal(expanded.members.find(member => member.name === 'draggable')?.kind, 'enum');
+});
+
+test('expanded Accordion props keep the members of every union branch', () => {
+  const project = createFixtureProject();
+  const accordion = addComponent(project, 'accordion.tsx');
+
+  const expanded = expandPropsType(getPropsNode(accordion, 'Accordion'), 'AccordionProps');
+  assert.ok(expanded);
+  const member = (name: string) => expanded.members.find(candidate => candidate.name === name);
+
+  // Only the single branch declares collapsible, so it cannot be required
+  assert.equal(member('collapsible')?.optional, true);
+  assert.equal(member('collapsible')?.kind, 'boolean');
+  assert.equal(member('type')?.optional, false);
+  assert.deepEqual(member('type')?.enumValues, ['single', 'multiple']);
+  assert.match(member('value')?.type || '', /^string \| string\[\]/);
+
+  const text = `import * as React from 'react';\n\n${renderExpandedInterface(expanded)}\n`;
+  assert.deepEqual(validatePropsText(project, '/AccordionProps.ts', text).diagnostics, []);
+});
@@ -0,0 +1,83 @@
+/**
+ * Line-based diff used to compare stored revisions of generated props files
+ */
+
+import chalk from 'chalk';
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * Diff two texts line by line using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Render a diff as colored hunks with a few lines of context around each change
+ */
+export function formatDiff(lines: DiffLine[], context = 3): string {
+  const changed = lines.map(line => line.type !== 'unchanged');
+  const visible = lines.map((_, index) => {
+    for (let offset = -context; offset <= context; offset++) {
+      if (changed[index + offset]) return true;
+    }
+    return false;
+  });
+
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (!visible[index]) {
+      skipped = true;
+      return;
+    }
+    if (skipped || output.length === 0) {
+      output.push(chalk.cyan('@@'));
+      skipped = false;
+    }
+
+    if (line.type === 'added') {
+      output.push(chalk.green(`+ ${line.text}`));
+    } else if (line.type === 'removed') {
+      output.push(chalk.red(`- ${line.text}`));
+    } else {
+      output.push(chalk.gray(`  ${line.text}`));
+    }
+  });
+
+  return output.join('\n');
+}
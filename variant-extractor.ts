@@ -0,0 +1,194 @@
+/**
+ * Extracts class-variance-authority variant definitions from component files
+ * This turns cva(...) variants and defaultVariants into typed unions and metadata
+ */
+
+import { Node, SourceFile, SyntaxKind, ObjectLiteralExpression, PropertyAssignment } from 'ts-morph';
+import { pascalCase } from 'change-case';
+import Debug from 'debug';
+
+const debug = Debug('shadcn:variants');
+
+export interface VariantDefinition {
+  /**
+   * Name of the variable holding the cva call (e.g., buttonVariants)
+   */
+  name: string;
+
+  /**
+   * Allowed values for each variant key (e.g., { size: ['default', 'sm', 'lg'] })
+   */
+  variants: Record<string, string[]>;
+
+  /**
+   * Default value for each variant key, if declared
+   */
+  defaultVariants: Record<string, string>;
+}
+
+/**
+ * Find every cva(...) call assigned to a variable in a source file
+ */
+export function extractVariants(sourceFile: SourceFile): VariantDefinition[] {
+  const definitions: VariantDefinition[] = [];
+
+  sourceFile.getVariableDeclarations().forEach(declaration => {
+    const initializer = declaration.getInitializer();
+    if (!initializer || !Node.isCallExpression(initializer)) {
+      return;
+    }
+
+    if (initializer.getExpression().getText() !== 'cva') {
+      return;
+    }
+
+    // The config object is the second argument: cva(base, { variants, defaultVariants })
+    const config = initializer.getArguments()[1];
+    if (!config || !Node.isObjectLiteralExpression(config)) {
+      debug(`cva call ${declaration.getName()} has no config object`);
+      return;
+    }
+
+    const variants: Record<string, string[]> = {};
+    const variantsObject = getObjectProperty(config, 'variants');
+    variantsObject?.getProperties().forEach(property => {
+      if (!Node.isPropertyAssignment(property)) return;
+
+      const values = resolveObjectLiteral(property.getInitializer());
+      variants[getPropertyName(property)] = values
+        ? values.getProperties()
+            .filter(Node.isPropertyAssignment)
+            .map(getPropertyName)
+        : [];
+    });
+
+    const defaultVariants: Record<string, string> = {};
+    const defaultsObject = getObjectProperty(config, 'defaultVariants');
+    defaultsObject?.getProperties().forEach(property => {
+      if (!Node.isPropertyAssignment(property)) return;
+
+      const value = property.getInitializer();
+      if (value) {
+        defaultVariants[getPropertyName(property)] = Node.isStringLiteral(value)
+          ? value.getLiteralText()
+          : value.getText();
+      }
+    });
+
+    definitions.push({ name: declaration.getName(), variants, defaultVariants });
+  });
+
+  return definitions;
+}
+
+/**
+ * Get an object literal assigned to a property of another object literal
+ */
+function getObjectProperty(object: ObjectLiteralExpression, name: string): ObjectLiteralExpression | undefined {
+  const property = object.getProperty(name);
+  if (property && Node.isPropertyAssignment(property)) {
+    return property.getInitializerIfKind(SyntaxKind.ObjectLiteralExpression);
+  }
+  return undefined;
+}
+
+/**
+ * Object literal an expression evaluates to, following `as const` and references to local constants
+ * (e.g., variants: { size: sizes } with const sizes = { sm: '...', lg: '...' } as const)
+ */
+function resolveObjectLiteral(node: Node | undefined): ObjectLiteralExpression | undefined {
+  if (!node) return undefined;
+  if (Node.isObjectLiteralExpression(node)) return node;
+  if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+    return resolveObjectLiteral(node.getExpression());
+  }
+  if (Node.isIdentifier(node)) {
+    const declaration = node.getSymbol()?.getDeclarations().find(Node.isVariableDeclaration);
+    return resolveObjectLiteral(declaration?.getInitializer());
+  }
+  return undefined;
+}
+
+/**
+ * Get a property name without surrounding quotes
+ */
+function getPropertyName(property: PropertyAssignment): string {
+  const nameNode = property.getNameNode();
+  return Node.isStringLiteral(nameNode) ? nameNode.getLiteralText() : nameNode.getText();
+}
+
+/**
+ * Base name used for emitted types (e.g., buttonVariants -> Button)
+ */
+export function getVariantBaseName(definition: VariantDefinition): string {
+  return pascalCase(definition.name.replace(/Variants?$/, '')) || 'Component';
+}
+
+/**
+ * Variant key as a property name, quoted when it is not an identifier (e.g., "2xl")
+ */
+function formatVariantKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Type text for the allowed values of one variant key
+ * Values that could not be read statically (e.g., computed objects) fall back to string
+ */
+function getVariantValueType(values: string[]): string {
+  // cva treats "true"/"false" keys as a boolean variant
+  if (values.length > 0 && values.every(value => value === 'true' || value === 'false')) {
+    return 'boolean';
+  }
+  return values.length > 0 ? values.map(value => JSON.stringify(value)).join(' | ') : 'string';
+}
+
+/**
+ * Render the props members for a variant definition, with @default tags
+ */
+export function renderVariantMembers(definition: VariantDefinition): string {
+  const baseName = getVariantBaseName(definition);
+
+  return Object.keys(definition.variants).map(key => {
+    const defaultValue = definition.defaultVariants[key];
+    const defaultTag = defaultValue !== undefined ? `\n   * @default ${JSON.stringify(defaultValue)}` : '';
+    const unknownTag = definition.variants[key].length === 0 ? '\n   * Values could not be read from the cva config' : '';
+    return `
+  /**
+   * "${key}" variant from ${definition.name}${unknownTag}${defaultTag}
+   */
+  ${formatVariantKey(key)}?: ${baseName}${pascalCase(key)};`;
+  }).join('\n');
+}
+
+/**
+ * Render union types, a variant props interface and a metadata object for a cva definition
+ */
+export function renderVariantTypes(definition: VariantDefinition): string {
+  const baseName = getVariantBaseName(definition);
+  const unions = Object.entries(definition.variants)
+    .map(([key, values]) => `export type ${baseName}${pascalCase(key)} = ${getVariantValueType(values)};`)
+    .join('\n');
+
+  return `// Variants from ${definition.name} (class-variance-authority)
+${unions}
+
+export interface ${baseName}VariantProps {${renderVariantMembers(definition)}
+}
+
+export const ${definition.name}Metadata = ${JSON.stringify({
+    variants: definition.variants,
+    defaultVariants: definition.defaultVariants
+  }, null, 2)} as const;`;
+}
+
+/**
+ * Point VariantProps<typeof buttonVariants> at the generated ButtonVariantProps interface
+ * so props types do not need the cva value itself
+ */
+export function replaceVariantPropsReferences(text: string, definitions: VariantDefinition[]): string {
+  return definitions.reduce((result, definition) => result.replace(
+    new RegExp(`\\bVariantProps<\\s*typeof\\s+${definition.name}\\s*>`, 'g'),
+    `${getVariantBaseName(definition)}VariantProps`
+  ), text);
+}
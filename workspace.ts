@@ -0,0 +1,142 @@
+/**
+ * Throwaway workspace that components are installed into instead of the current project
+ * The project's package.json, components.json and tsconfig files are copied, so its own files never change
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import globPromise from 'glob-promise';
+import fs_extra from 'fs-extra';
+import Debug from 'debug';
+import { LOCKFILES } from './package-manager';
+
+const debug = Debug('shadcn:workspace');
+
+// Project files the shadcn CLI and the extractor read
+const CONFIG_FILES = ['package.json', 'components.json', '.npmrc', ...LOCKFILES.map(({ file }) => file)];
+
+// Fields whose workspace: entries are left out of the copied package.json
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+// Workspaces to remove if the process exits or is interrupted before they are torn down
+const activeWorkspaces = new Set<ScratchWorkspace>();
+let exitHandlersInstalled = false;
+
+export interface ScratchWorkspace {
+  // Copy of the project configuration that components are installed into
+  root: string;
+  // Temporary directory holding the copy and the link to the project's node_modules
+  tempDir: string;
+  // Project the configuration was copied from
+  projectRoot: string;
+}
+
+export interface ScratchWorkspaceOptions {
+  // Remove the workspace when the process exits or receives SIGINT/SIGTERM (default true)
+  removeOnExit?: boolean;
+}
+
+/**
+ * Remove every active workspace synchronously; exit handlers cannot wait for promises
+ */
+function removeActiveWorkspacesSync(): void {
+  activeWorkspaces.forEach(workspace => {
+    try {
+      fs_extra.removeSync(workspace.tempDir);
+      debug(`Removed workspace ${workspace.tempDir} on exit`);
+    } catch (error) {
+      debug(`Could not remove workspace ${workspace.tempDir} on exit:`, error);
+    }
+  });
+  activeWorkspaces.clear();
+}
+
+/**
+ * Tear workspaces down on process.exit (e.g., the global timeout) and on interrupts
+ */
+function installExitHandlers(): void {
+  if (exitHandlersInstalled) return;
+  exitHandlersInstalled = true;
+
+  process.on('exit', removeActiveWorkspacesSync);
+  (['SIGINT', 'SIGTERM'] as const).forEach(signal => {
+    process.once(signal, () => {
+      removeActiveWorkspacesSync();
+      process.exit(128 + os.constants.signals[signal]);
+    });
+  });
+}
+
+/**
+ * Copy package.json without workspace: dependencies, which no package manager installs outside their monorepo
+ * The packages still resolve through the linked node_modules
+ */
+async function copyPackageJson(from: string, to: string): Promise<void> {
+  const pkg = JSON.parse(await fs.readFile(from, 'utf8'));
+
+  DEPENDENCY_FIELDS.forEach(field => {
+    const dependencies: Record<string, string> | undefined = pkg[field];
+    Object.keys(dependencies || {})
+      .filter(name => String(dependencies?.[name]).startsWith('workspace:'))
+      .forEach(name => {
+        debug(`Leaving workspace dependency ${name} out of the copied package.json`);
+        delete dependencies?.[name];
+      });
+  });
+
+  await fs.writeFile(to, `${JSON.stringify(pkg, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Create a workspace in the system temp directory with the project's configuration
+ * The project's node_modules is linked into the temp directory, one level above the copy, so installed
+ * typings resolve; packages added during extraction go to the copy's own node_modules and never reach the project
+ */
+export async function createScratchWorkspace(projectRoot: string, options: ScratchWorkspaceOptions = {}): Promise<ScratchWorkspace> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'shadcn-props-'));
+  const root = path.join(tempDir, 'project');
+  const workspace: ScratchWorkspace = { root, tempDir, projectRoot };
+
+  if (options.removeOnExit !== false) {
+    installExitHandlers();
+    activeWorkspaces.add(workspace);
+  }
+
+  await fs.mkdir(root);
+
+  // tsconfig.app.json and friends are often referenced through "extends" or "references"
+  const tsconfigFiles = await globPromise('{tsconfig,jsconfig}*.json', { cwd: projectRoot });
+  const files = [...CONFIG_FILES, ...tsconfigFiles].filter(file => existsSync(path.join(projectRoot, file)));
+
+  for (const file of files) {
+    if (file === 'package.json') {
+      await copyPackageJson(path.join(projectRoot, file), path.join(root, file));
+    } else {
+      await fs.copyFile(path.join(projectRoot, file), path.join(root, file));
+    }
+  }
+
+  // Only read through module resolution walking up from the copy; installs never write above their package
+  const nodeModules = path.join(projectRoot, 'node_modules');
+  if (existsSync(nodeModules)) {
+    await fs.symlink(nodeModules, path.join(tempDir, 'node_modules'), 'junction');
+  }
+
+  debug(`Created workspace ${root} with ${files.join(', ')}`);
+  return workspace;
+}
+
+/**
+ * Delete a workspace; the linked node_modules is unlinked, not removed
+ */
+export async function removeScratchWorkspace(workspace: ScratchWorkspace): Promise<void> {
+  try {
+    await fs_extra.remove(workspace.tempDir);
+    activeWorkspaces.delete(workspace);
+    debug(`Removed workspace ${workspace.tempDir}`);
+  } catch (error) {
+    debug(`Could not remove workspace ${workspace.tempDir}:`, error);
+    throw new Error(`Could not remove workspace ${workspace.tempDir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
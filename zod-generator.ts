@@ -0,0 +1,156 @@
+/**
+ * Generates Zod schemas from extracted props types
+ * Used to validate stored component configs against the real shadcn prop types
+ */
+
+import { ExpandedPropMember, ExpandedPropsType } from './prop-expander';
+import { VariantDefinition, getVariantBaseName } from './variant-extractor';
+import { parseDefaultValue } from './default-extractor';
+
+export interface ZodGeneratorOptions {
+  /**
+   * How to handle function props: emit z.function() or leave them out
+   */
+  functions?: 'include' | 'exclude';
+
+  /**
+   * Zod expression used for ReactNode props (e.g., z.string())
+   */
+  reactNodePlaceholder?: string;
+}
+
+export interface ZodSchemaSource {
+  expandedProps: ExpandedPropsType[];
+  variants: VariantDefinition[];
+}
+
+const DEFAULT_OPTIONS: Required<ZodGeneratorOptions> = {
+  functions: 'exclude',
+  reactNodePlaceholder: 'z.any()'
+};
+
+/**
+ * Quote an object key when it is not a valid identifier (e.g., aria-label)
+ */
+function formatKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Zod expression for a literal union
+ */
+function enumToZod(values: Array<string | number | boolean>): string {
+  // z.enum([]) and z.union([]) do not type-check; no value is allowed
+  if (values.length === 0) {
+    return 'z.never()';
+  }
+
+  if (values.length === 1) {
+    return `z.literal(${JSON.stringify(values[0])})`;
+  }
+
+  if (values.every(value => typeof value === 'string')) {
+    return `z.enum([${values.map(value => JSON.stringify(value)).join(', ')}])`;
+  }
+
+  return `z.union([${values.map(value => `z.literal(${JSON.stringify(value)})`).join(', ')}])`;
+}
+
+/**
+ * Zod expression for a single member, or null when the member is excluded
+ */
+function memberToZod(member: ExpandedPropMember, options: Required<ZodGeneratorOptions>): string | null {
+  let expression: string;
+
+  switch (member.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      expression = `z.${member.kind}()`;
+      break;
+    case 'enum':
+      expression = enumToZod(member.enumValues || []);
+      break;
+    case 'array':
+      expression = 'z.array(z.any())';
+      break;
+    case 'function':
+      if (options.functions === 'exclude') return null;
+      expression = 'z.function()';
+      break;
+    case 'react-node':
+      expression = options.reactNodePlaceholder;
+      break;
+    case 'object':
+      expression = 'z.record(z.any())';
+      break;
+    default:
+      expression = 'z.any()';
+  }
+
+  const defaultValue = member.defaultValue !== undefined ? parseDefaultValue(member.defaultValue) : undefined;
+  if (defaultValue !== undefined) {
+    expression += `.default(${JSON.stringify(defaultValue)})`;
+  } else if (member.optional) {
+    expression += '.optional()';
+  }
+  if (member.description) {
+    expression += `.describe(${JSON.stringify(member.description)})`;
+  }
+
+  return expression;
+}
+
+/**
+ * Render a z.object(...) declaration for one expanded props type
+ */
+export function propsTypeToZod(propsType: ExpandedPropsType, options: ZodGeneratorOptions = {}): string {
+  const resolvedOptions = { ...DEFAULT_OPTIONS, ...options };
+  const fields = propsType.members
+    .map(member => {
+      const expression = memberToZod(member, resolvedOptions);
+      return expression ? `  ${formatKey(member.name)}: ${expression},` : null;
+    })
+    .filter(Boolean);
+
+  return `export const ${propsType.name}Schema = z.object({
+${fields.join('\n')}
+});`;
+}
+
+/**
+ * Render a z.object(...) declaration for the variant props of a cva definition
+ */
+export function variantsToZod(definition: VariantDefinition): string {
+  const fields = Object.entries(definition.variants).map(([key, values]) => {
+    const isBoolean = values.length > 0 && values.every(value => value === 'true' || value === 'false');
+    const defaultValue = definition.defaultVariants[key];
+    // Values that could not be read from the cva config are typed as string
+    const expression = isBoolean ? 'z.boolean()' : values.length === 0 ? 'z.string()' : enumToZod(values);
+
+    const modifier = defaultValue !== undefined
+      ? `.default(${isBoolean ? defaultValue : JSON.stringify(defaultValue)})`
+      : '.optional()';
+
+    return `  ${formatKey(key)}: ${expression}${modifier},`;
+  });
+
+  return `export const ${getVariantBaseName(definition)}VariantPropsSchema = z.object({
+${fields.join('\n')}
+});`;
+}
+
+/**
+ * Generate a module with a Zod schema per extracted props type
+ */
+export function generateZodSchemas(source: ZodSchemaSource, options: ZodGeneratorOptions = {}): string {
+  const schemas = [
+    ...source.expandedProps.map(propsType => propsTypeToZod(propsType, options)),
+    ...source.variants.map(variantsToZod)
+  ];
+
+  return `import { z } from 'zod';
+
+${schemas.join('\n\n')}
+`;
+}